@@ -0,0 +1,162 @@
+import express, { RequestHandler, Response, Router } from 'express'
+import { parseRuleChanges } from '../game/rules'
+import { AdminResult, Room } from '../room'
+import { RoomManager } from '../roomManager'
+import { sessionTokensMatch } from '../sessions'
+import { isRole, isTeam } from '../validation'
+
+// HTTP status for each way an admin action can turn out
+const RESULT_STATUS: Record<AdminResult, number> = {
+  done: 200,
+  no_such_player: 404,
+  unchanged: 409,
+  not_playing: 409
+}
+
+// Only requests carrying the admin token as a bearer token get through
+const requireToken = (adminToken: string): RequestHandler => (req, res, next) => {
+  const header = req.get('authorization') ?? ''
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : ''
+  if (!sessionTokensMatch(adminToken, token)) {
+    res.status(401).json({ error: 'unauthorized' })
+    return
+  }
+  next()
+}
+
+const sendResult = (res: Response, result: AdminResult) => {
+  if (result === 'done') {
+    res.json({ ok: true })
+  } else {
+    res.status(RESULT_STATUS[result]).json({ error: result })
+  }
+}
+
+const describeRoom = (room: Room) => {
+  const { status, paused, map, series, rules, spectatorCount, players } = room.gameState
+  return {
+    id: room.id,
+    status,
+    paused,
+    map: map.name,
+    series,
+    rules,
+    playerCount: Object.values(players).filter(player => !player.isBot).length,
+    spectatorCount
+  }
+}
+
+/**
+ * HTTP routes for operators to watch and steer live matches. Every request
+ * needs `Authorization: Bearer <ADMIN_TOKEN>`, and every change is announced
+ * to the room it affects.
+ *
+ * GET   /admin/rooms                               - every live room
+ * GET   /admin/rooms/:roomId                       - a room and its players
+ * POST  /admin/rooms/:roomId/players/:playerId/kick
+ * POST  /admin/rooms/:roomId/players/:playerId/slot - { team, role }
+ * POST  /admin/rooms/:roomId/pause                 - { paused }
+ * POST  /admin/rooms/:roomId/reset                 - back to the lobby for a new series
+ * POST  /admin/rooms/:roomId/end                   - { winner }
+ * PATCH /admin/rooms/:roomId/rules                 - any of the rules, e.g. { berriesToWin: 8 }
+ */
+export const createAdminRouter = (rooms: RoomManager, adminToken: string) => {
+  const router = Router()
+  router.use(requireToken(adminToken))
+  router.use(express.json())
+
+  // Look up the room named in the path, or answer 404
+  const findRoom = (roomId: string, res: Response) => {
+    const room = rooms.get(roomId)
+    if (!room) {
+      res.status(404).json({ error: 'room_not_found' })
+    }
+    return room
+  }
+
+  router.get('/rooms', (_req, res) => {
+    res.json({ rooms: rooms.list().map(describeRoom) })
+  })
+
+  router.get('/rooms/:roomId', (req, res) => {
+    const room = findRoom(req.params.roomId, res)
+    if (!room) return
+
+    const flagged = room.engine.getFlaggedPlayers()
+    const players = Object.values(room.gameState.players).map(player => ({
+      id: player.id,
+      name: player.name,
+      team: player.team,
+      role: player.role,
+      isBot: player.isBot,
+      isActive: player.isActive,
+      isAlive: player.isAlive,
+      isFlagged: flagged.includes(player.id)
+    }))
+    res.json({ ...describeRoom(room), players })
+  })
+
+  router.post('/rooms/:roomId/players/:playerId/kick', (req, res) => {
+    const room = findRoom(req.params.roomId, res)
+    if (!room) return
+
+    sendResult(res, room.kickPlayer(req.params.playerId))
+  })
+
+  router.post('/rooms/:roomId/players/:playerId/slot', (req, res) => {
+    const room = findRoom(req.params.roomId, res)
+    if (!room) return
+
+    const { team, role } = req.body ?? {}
+    if (!isTeam(team) || !isRole(role)) {
+      res.status(400).json({ error: 'invalid_slot', message: 'expected { team: "blue" | "gold", role: "queen" | "worker" | "soldier" }' })
+      return
+    }
+    sendResult(res, room.movePlayer(req.params.playerId, team, role))
+  })
+
+  router.post('/rooms/:roomId/pause', (req, res) => {
+    const room = findRoom(req.params.roomId, res)
+    if (!room) return
+
+    const { paused } = req.body ?? {}
+    if (typeof paused !== 'boolean') {
+      res.status(400).json({ error: 'invalid_pause', message: 'expected { paused: boolean }' })
+      return
+    }
+    sendResult(res, room.setPaused(paused))
+  })
+
+  router.post('/rooms/:roomId/reset', (req, res) => {
+    const room = findRoom(req.params.roomId, res)
+    if (!room) return
+
+    sendResult(res, room.resetMatch())
+  })
+
+  router.post('/rooms/:roomId/end', (req, res) => {
+    const room = findRoom(req.params.roomId, res)
+    if (!room) return
+
+    const { winner } = req.body ?? {}
+    if (!isTeam(winner)) {
+      res.status(400).json({ error: 'invalid_winner', message: 'expected { winner: "blue" | "gold" }' })
+      return
+    }
+    sendResult(res, room.endMatch(winner))
+  })
+
+  router.patch('/rooms/:roomId/rules', (req, res) => {
+    const room = findRoom(req.params.roomId, res)
+    if (!room) return
+
+    const changes = parseRuleChanges(req.body)
+    if (!changes.ok) {
+      res.status(400).json({ error: 'invalid_rules', message: changes.message })
+      return
+    }
+    sendResult(res, room.updateRules(changes.value))
+  })
+
+  return router
+}
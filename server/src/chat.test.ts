@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { CHAT_RATE_LIMIT, CHAT_RATE_WINDOW, ChatLimiter, MAX_NAME_LENGTH, censor, cleanChatText, cleanName } from './chat'
+
+describe('chat filtering', () => {
+  it('masks blocked words, whatever their case or spelling', () => {
+    assert.equal(censor('oh SHIT, the snail!'), 'oh ****, the snail!')
+    assert.equal(censor('what a $h1t play'), 'what a **** play')
+  })
+
+  it('leaves words that merely contain a blocked one alone', () => {
+    assert.equal(censor('Scunthorpe shitake'), 'Scunthorpe shitake')
+  })
+
+  it('tidies nicknames and refuses empty ones', () => {
+    assert.equal(cleanName('  Queen\tBee \n'), 'Queen Bee')
+    assert.equal(cleanName('x'.repeat(MAX_NAME_LENGTH + 5))?.length, MAX_NAME_LENGTH)
+    assert.equal(cleanName(' \u0007 '), null)
+    assert.equal(cleanChatText('   '), null)
+  })
+})
+
+describe('ChatLimiter', () => {
+  it('allows a burst of messages, then waits for the window to pass', () => {
+    const limiter = new ChatLimiter()
+    for (let i = 0; i < CHAT_RATE_LIMIT; i++) {
+      assert.equal(limiter.tryConsume('a', 1000), true)
+    }
+    assert.equal(limiter.tryConsume('a', 1000), false)
+    assert.equal(limiter.tryConsume('b', 1000), true)
+    assert.equal(limiter.tryConsume('a', 1000 + CHAT_RATE_WINDOW), true)
+  })
+})
@@ -0,0 +1,62 @@
+// Nicknames and chat messages are cut to these lengths after cleaning up
+export const MAX_NAME_LENGTH = 20
+export const MAX_CHAT_LENGTH = 200
+
+// Each player may send this many chat messages per window
+export const CHAT_RATE_LIMIT = 5
+export const CHAT_RATE_WINDOW = 5 * 1000 // 5 seconds
+
+// Words masked in nicknames and chat. Matching is on whole words, ignoring
+// case and common letter-for-symbol swaps, so it catches the obvious cases
+// without mangling innocent words that merely contain one.
+const BLOCKED_WORDS = ['fuck', 'fucking', 'fucker', 'shit', 'bitch', 'cunt', 'asshole', 'slut', 'whore', 'fag', 'retard']
+
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' }
+
+const normalizeWord = (word: string) =>
+  word.toLowerCase().replace(/[0-9@$]/g, char => LOOKALIKES[char] ?? char)
+
+// Replace blocked words with asterisks of the same length
+export const censor = (text: string) =>
+  text.replace(/[\p{L}0-9@$]+/gu, word => (BLOCKED_WORDS.includes(normalizeWord(word)) ? '*'.repeat(word.length) : word))
+
+// Drop control characters, squeeze runs of whitespace and trim
+const tidy = (text: string) =>
+  text.replace(/\p{Cc}/gu, ' ').replace(/\s+/g, ' ').trim()
+
+// A nickname fit to show everyone, or null if nothing is left of it
+export const cleanName = (name: string): string | null => {
+  const cleaned = censor(tidy(name).slice(0, MAX_NAME_LENGTH)).trim()
+  return cleaned.length > 0 ? cleaned : null
+}
+
+// A chat message fit to show everyone, or null if nothing is left of it
+export const cleanChatText = (text: string): string | null => {
+  const cleaned = censor(tidy(text).slice(0, MAX_CHAT_LENGTH))
+  return cleaned.length > 0 ? cleaned : null
+}
+
+/**
+ * Limits how fast each player can chat.
+ *
+ * Keeps the send times of each player's recent messages and refuses a new one
+ * once they've sent CHAT_RATE_LIMIT within the window.
+ */
+export class ChatLimiter {
+  private sent = new Map<string, number[]>()
+
+  // Count a message from `playerId` if they're under the limit
+  tryConsume(playerId: string, now = Date.now()) {
+    const recent = (this.sent.get(playerId) ?? []).filter(time => now - time < CHAT_RATE_WINDOW)
+    if (recent.length >= CHAT_RATE_LIMIT) {
+      this.sent.set(playerId, recent)
+      return false
+    }
+    this.sent.set(playerId, [...recent, now])
+    return true
+  }
+
+  forget(playerId: string) {
+    this.sent.delete(playerId)
+  }
+}
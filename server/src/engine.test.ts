@@ -0,0 +1,792 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { GameEngine } from './engine'
+import { BERRY_WIN_COUNT, HIVE_POSITIONS } from './game/berries'
+import { QUEEN_RESPAWN_DELAY } from './game/combat'
+import { GATE_USE_DURATION } from './game/gates'
+import { MOVE_GRACE_PERIOD, VIOLATION_LIMIT } from './game/movement'
+import { START_COUNTDOWN } from './game/lobby'
+import { DEFAULT_RULES, RULE_PRESETS, parseRuleChanges, rulesFromEnv } from './game/rules'
+import { NEXT_GAME_DELAY } from './game/series'
+import { snailWorldPosition } from './game/snail'
+import { ReplayFile } from '../../shared/replay'
+import { ARENA_BOUNDS, BEE_BODY, FLIGHT_SETTINGS, ROLE_MAX_VELOCITY } from '../../shared/flight'
+import { BotSettings, createBotBrain, updateBot } from './game/bots'
+import { MatchRules, Player, ServerEvent, Vector3Tuple } from './types'
+
+const DT = 1 / 30
+
+const NO_BOTS: BotSettings = { teamSize: 0, difficulty: 'normal' }
+
+interface TestEngine {
+  engine: GameEngine
+  // Every broadcast, in order
+  events: { event: ServerEvent, payload: unknown }[]
+  // Every message sent to a single player, in order
+  sent: { playerId: string, event: ServerEvent, payload: unknown }[]
+  replays: ReplayFile[]
+}
+
+const createTestEngine = (botSettings = NO_BOTS, rules?: MatchRules): TestEngine => {
+  const test: TestEngine = { engine: undefined as unknown as GameEngine, events: [], sent: [], replays: [] }
+  test.engine = new GameEngine({
+    id: 'test',
+    botSettings,
+    rules,
+    hooks: {
+      broadcast: (event, ...args) => {
+        test.events.push({ event, payload: args[0] })
+      },
+      sendToPlayer: (playerId, event, ...args) => {
+        test.sent.push({ playerId, event, payload: args[0] })
+      },
+      replayFinished: (replay) => {
+        test.replays.push(replay)
+      },
+      log: () => {}
+    }
+  })
+  return test
+}
+
+// Advance the engine by `seconds` in fixed steps
+const run = (engine: GameEngine, seconds: number) => {
+  const steps = Math.round(seconds / DT)
+  for (let i = 0; i < steps; i++) {
+    engine.step(DT)
+  }
+}
+
+// Add players until there are `count`, then ready everyone up and play out the countdown
+const startMatch = (engine: GameEngine, count = 4): Player[] => {
+  const players = Array.from({ length: count }, (_, i) => engine.addPlayer(`p${i + 1}`))
+  players.forEach(player => engine.queueInput(player.id, { type: 'setReady', ready: true }))
+  run(engine, engine.gameState.rules.startCountdown + DT * 2)
+  assert.equal(engine.gameState.status, 'playing')
+  return players.map(player => engine.gameState.players[player.id])
+}
+
+const findPlayer = (engine: GameEngine, team: Player['team'], role: Player['role']) => {
+  const player = Object.values(engine.gameState.players).find(p => p.team === team && p.role === role)
+  assert.ok(player, `no ${team} ${role}`)
+  return player
+}
+
+// Put `attacker` right in front of `victim` and swing
+const attack = (engine: GameEngine, attacker: Player, victim: Player) => {
+  const [x, y, z] = victim.position
+  attacker.position = [x, y, z + 1]
+  attacker.rotation = [0, 0, 0]
+  engine.queueInput(attacker.id, { type: 'attack' })
+  engine.step(DT)
+}
+
+describe('GameEngine', () => {
+  describe('team balancing', () => {
+    it('alternates teams and gives each team a queen first', () => {
+      const { engine } = createTestEngine()
+      const players = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => engine.addPlayer(id))
+
+      assert.deepEqual(players.map(p => p.team), ['blue', 'gold', 'blue', 'gold', 'blue', 'gold'])
+      assert.deepEqual(players.map(p => p.role), ['queen', 'queen', 'worker', 'worker', 'worker', 'worker'])
+    })
+
+    it('fills the smaller team when someone leaves', () => {
+      const { engine } = createTestEngine()
+      engine.addPlayer('a')
+      engine.addPlayer('b')
+      engine.addPlayer('c')
+      engine.removePlayer('a')
+
+      const player = engine.addPlayer('d')
+      assert.equal(player.team, 'blue')
+      assert.equal(player.role, 'queen')
+    })
+
+    it('tops teams up with bots and hands their places to humans, queen first', () => {
+      const { engine } = createTestEngine({ teamSize: 3, difficulty: 'normal' })
+      engine.addPlayer('a')
+      engine.step(DT)
+
+      const players = Object.values(engine.gameState.players)
+      assert.equal(players.filter(p => p.team === 'blue').length, 3)
+      assert.equal(players.filter(p => p.team === 'gold').length, 3)
+      assert.equal(players.filter(p => p.isBot).length, 5)
+
+      const human = engine.addPlayer('b')
+      assert.equal(human.team, 'gold')
+      assert.equal(human.role, 'queen')
+      assert.equal(human.isBot, false)
+      assert.equal(Object.values(engine.gameState.players).filter(p => p.team === 'gold').length, 3)
+    })
+
+    it('sends bot workers with a berry to their gate while their team has no soldier', () => {
+      const { engine } = createTestEngine()
+      const [, , worker] = startMatch(engine)
+      const gate = Object.values(engine.gameState.gates)[0]
+      gate.team = worker.team
+      worker.position = [gate.position[0], gate.position[1], gate.position[2] + 1]
+      Object.values(engine.gameState.berries)[0].carrierId = worker.id
+
+      const inputs = updateBot(engine.gameState, worker, createBotBrain('hard'), engine.now(), DT)
+      assert.ok(inputs.some(input => input.type === 'enterGate' && input.gateId === gate.id))
+
+      // With a soldier on the team, the berry goes home instead
+      findPlayer(engine, worker.team, 'queen').role = 'soldier'
+      const later = updateBot(engine.gameState, worker, createBotBrain('hard'), engine.now(), DT)
+      assert.ok(!later.some(input => input.type === 'enterGate'))
+    })
+
+    it('drops the bots once the last human leaves', () => {
+      const { engine } = createTestEngine({ teamSize: 2, difficulty: 'easy' })
+      engine.addPlayer('a')
+      engine.step(DT)
+      engine.removePlayer('a')
+      engine.step(DT)
+
+      assert.deepEqual(engine.gameState.players, {})
+    })
+  })
+
+  describe('lobby', () => {
+    it('starts once both teams are ready, after the countdown', () => {
+      const { engine, replays } = createTestEngine()
+      const a = engine.addPlayer('a')
+      const b = engine.addPlayer('b')
+      engine.queueInput(a.id, { type: 'setReady', ready: true })
+      engine.step(DT)
+      assert.equal(engine.gameState.status, 'waiting')
+
+      engine.queueInput(b.id, { type: 'setReady', ready: true })
+      engine.step(DT)
+      assert.equal(engine.gameState.status, 'starting')
+
+      run(engine, START_COUNTDOWN - 0.5)
+      assert.equal(engine.gameState.status, 'starting')
+      run(engine, 0.5 + DT * 2)
+      assert.equal(engine.gameState.status, 'playing')
+      assert.equal(replays.length, 0)
+    })
+
+    it('cancels the countdown when a player unreadies', () => {
+      const { engine } = createTestEngine()
+      const a = engine.addPlayer('a')
+      const b = engine.addPlayer('b')
+      engine.queueInput(a.id, { type: 'setReady', ready: true })
+      engine.queueInput(b.id, { type: 'setReady', ready: true })
+      run(engine, 1)
+      engine.queueInput(b.id, { type: 'setReady', ready: false })
+      engine.step(DT)
+
+      assert.equal(engine.gameState.status, 'waiting')
+    })
+  })
+
+  describe('slot selection', () => {
+    it('lets players pick a team and role, one queen per team', () => {
+      const { engine } = createTestEngine()
+      const [a, b, c] = ['a', 'b', 'c'].map(id => engine.addPlayer(id))
+      engine.queueInput(c.id, { type: 'setReady', ready: true })
+      engine.queueInput(c.id, { type: 'claimSlot', team: 'gold', role: 'queen' })
+      engine.step(DT)
+      assert.equal(c.team, 'blue')
+      assert.equal(b.role, 'queen')
+
+      // Soldiers are only made at gates
+      engine.queueInput(c.id, { type: 'claimSlot', team: 'gold', role: 'soldier' })
+      engine.step(DT)
+      assert.equal(c.team, 'blue')
+
+      engine.queueInput(c.id, { type: 'claimSlot', team: 'gold', role: 'worker' })
+      engine.step(DT)
+      assert.equal(c.team, 'gold')
+      assert.equal(c.role, 'worker')
+      assert.equal(c.isReady, false)
+      assert.equal(a.role, 'queen')
+    })
+
+    it('crowns a teammate who never picked a slot when the queen steps down', () => {
+      const { engine } = createTestEngine()
+      const [a, , c] = ['a', 'b', 'c'].map(id => engine.addPlayer(id))
+      engine.queueInput(a.id, { type: 'claimSlot', team: 'blue', role: 'worker' })
+      engine.step(DT)
+
+      assert.equal(a.role, 'worker')
+      assert.equal(c.role, 'queen')
+    })
+
+    it('takes the crown from a bot queen', () => {
+      const { engine } = createTestEngine({ teamSize: 2, difficulty: 'normal' })
+      const a = engine.addPlayer('a')
+      engine.step(DT)
+      engine.queueInput(a.id, { type: 'claimSlot', team: 'gold', role: 'queen' })
+      // Bots even the teams out again on the following step
+      run(engine, DT * 2)
+
+      const gold = Object.values(engine.gameState.players).filter(p => p.team === 'gold')
+      assert.equal(a.role, 'queen')
+      assert.equal(gold.filter(p => p.role === 'queen').length, 1)
+      assert.equal(gold.length, 2)
+      // Blue's queen left, so one of its bots took over
+      assert.equal(findPlayer(engine, 'blue', 'queen').isBot, true)
+    })
+
+    it('swaps slots once the other player accepts', () => {
+      const { engine } = createTestEngine()
+      const [a, b, c] = ['a', 'b', 'c'].map(id => engine.addPlayer(id))
+      engine.queueInput(c.id, { type: 'requestSwap', playerId: b.id })
+      engine.step(DT)
+      assert.deepEqual(engine.gameState.swapRequests, [{ fromId: c.id, toId: b.id }])
+
+      engine.queueInput(b.id, { type: 'answerSwap', playerId: c.id, accept: true })
+      engine.step(DT)
+      assert.deepEqual([c.team, c.role], ['gold', 'queen'])
+      assert.deepEqual([b.team, b.role], ['blue', 'worker'])
+      assert.equal(a.role, 'queen')
+      assert.deepEqual(engine.gameState.swapRequests, [])
+    })
+
+    it('forgets declined swap requests and those of players who leave', () => {
+      const { engine } = createTestEngine()
+      const [a, b, c] = ['a', 'b', 'c'].map(id => engine.addPlayer(id))
+      engine.queueInput(a.id, { type: 'requestSwap', playerId: b.id })
+      engine.queueInput(c.id, { type: 'requestSwap', playerId: b.id })
+      engine.step(DT)
+      engine.queueInput(b.id, { type: 'answerSwap', playerId: a.id, accept: false })
+      engine.step(DT)
+      assert.deepEqual(engine.gameState.swapRequests, [{ fromId: c.id, toId: b.id }])
+      assert.equal(a.team, 'blue')
+
+      engine.removePlayer(c.id)
+      assert.deepEqual(engine.gameState.swapRequests, [])
+    })
+
+    it('locks slots once the match starts', () => {
+      const { engine } = createTestEngine()
+      const [a, b] = startMatch(engine)
+      engine.queueInput(a.id, { type: 'claimSlot', team: 'gold', role: 'worker' })
+      engine.queueInput(a.id, { type: 'requestSwap', playerId: b.id })
+      engine.step(DT)
+
+      assert.equal(engine.gameState.players[a.id].team, 'blue')
+      assert.deepEqual(engine.gameState.swapRequests, [])
+    })
+  })
+
+  describe('victory', () => {
+    it('ends the game on the last berry deposit (economic)', () => {
+      const { engine, events, replays } = createTestEngine()
+      startMatch(engine)
+      const worker = findPlayer(engine, 'blue', 'worker')
+      const berry = Object.values(engine.gameState.berries)[0]
+
+      engine.gameState.berryCount.blue = BERRY_WIN_COUNT - 1
+      berry.carrierId = worker.id
+      worker.position = [...HIVE_POSITIONS[engine.gameState.sides.blue]]
+      engine.queueInput(worker.id, { type: 'depositBerry' })
+      engine.step(DT)
+
+      assert.equal(engine.gameState.status, 'ended')
+      assert.equal(engine.gameState.berryCount.blue, BERRY_WIN_COUNT)
+      assert.deepEqual(events.find(e => e.event === 'gameOver')?.payload, { winner: 'blue', reason: 'economic' })
+      assert.equal(engine.gameState.result?.winner, 'blue')
+      assert.equal(replays.length, 1)
+      assert.equal(replays[0].reason, 'economic')
+      assert.deepEqual(replays[0].rules, engine.gameState.rules)
+      assert.equal(replays[0].events.at(-1)?.type, 'gameOver')
+    })
+
+    it('ends the game on the third queen kill (military)', () => {
+      const { engine, events } = createTestEngine()
+      startMatch(engine)
+      const blueQueen = findPlayer(engine, 'blue', 'queen')
+      const goldQueen = findPlayer(engine, 'gold', 'queen')
+
+      for (let kill = 1; kill <= 3; kill++) {
+        attack(engine, blueQueen, goldQueen)
+        assert.equal(goldQueen.isAlive, false)
+        assert.equal(engine.gameState.blueScore, kill)
+        if (kill < 3) {
+          assert.equal(engine.gameState.goldQueenAlive, false)
+          run(engine, QUEEN_RESPAWN_DELAY + DT)
+          assert.equal(engine.gameState.goldQueenAlive, true)
+        }
+      }
+
+      assert.equal(engine.gameState.status, 'ended')
+      assert.deepEqual(events.find(e => e.event === 'gameOver')?.payload, { winner: 'blue', reason: 'military' })
+    })
+
+    it('ends the game when the snail reaches a goal', () => {
+      const { engine, events } = createTestEngine()
+      startMatch(engine)
+      const worker = findPlayer(engine, 'blue', 'worker')
+
+      // Blue starts on the left and pushes the snail toward 100
+      assert.equal(engine.gameState.sides.blue, 'left')
+      engine.gameState.snailPosition = 99.9
+      worker.position = snailWorldPosition(engine.gameState.snailPosition)
+      engine.queueInput(worker.id, { type: 'mountSnail' })
+      run(engine, 0.2)
+
+      assert.equal(engine.gameState.status, 'ended')
+      assert.equal(engine.gameState.snailPosition, 100)
+      assert.deepEqual(events.find(e => e.event === 'gameOver')?.payload, { winner: 'blue', reason: 'snail' })
+    })
+
+    it('only counts the first win condition met', () => {
+      const { engine, events } = createTestEngine()
+      startMatch(engine)
+      engine.endGame('gold', 'military')
+      engine.endGame('blue', 'economic')
+
+      assert.equal(engine.gameState.result?.winner, 'gold')
+      assert.equal(events.filter(e => e.event === 'gameOver').length, 1)
+      assert.deepEqual(engine.gameState.series.wins, { blue: 0, gold: 1 })
+    })
+
+    it('ignores scoring inputs once the game is over', () => {
+      const { engine } = createTestEngine()
+      startMatch(engine)
+      engine.endGame('gold', 'military')
+      const worker = findPlayer(engine, 'blue', 'worker')
+      const berry = Object.values(engine.gameState.berries)[0]
+      worker.position = [...berry.position]
+      engine.queueInput(worker.id, { type: 'collectBerry', berryId: berry.id })
+      engine.step(DT)
+
+      assert.equal(berry.carrierId, null)
+    })
+
+    it('plays the next game of the series on the next map with sides swapped', () => {
+      const { engine, events } = createTestEngine()
+      startMatch(engine)
+      const firstMap = engine.gameState.map.id
+      engine.endGame('blue', 'military')
+      run(engine, NEXT_GAME_DELAY + DT)
+
+      assert.equal(engine.gameState.series.gameNumber, 2)
+      assert.notEqual(engine.gameState.map.id, firstMap)
+      assert.equal(engine.gameState.sides.blue, 'right')
+      assert.ok(events.some(e => e.event === 'playerRespawned'))
+
+      // Everyone is still ready, so the countdown runs straight into play
+      run(engine, START_COUNTDOWN + DT * 2)
+      assert.equal(engine.gameState.status, 'playing')
+    })
+
+    it('ends the series after a team wins the majority, then restarts on a rematch vote', () => {
+      const { engine, events } = createTestEngine()
+      const players = startMatch(engine, 2)
+      engine.endGame('gold', 'snail')
+      run(engine, NEXT_GAME_DELAY + START_COUNTDOWN + DT * 4)
+      engine.endGame('gold', 'economic')
+
+      assert.equal(engine.gameState.series.winner, 'gold')
+      assert.ok(events.some(e => e.event === 'seriesOver'))
+
+      // The series stays over until most players vote for a rematch
+      run(engine, NEXT_GAME_DELAY + DT)
+      assert.equal(engine.gameState.status, 'ended')
+
+      players.forEach(player => engine.queueInput(player.id, { type: 'voteRematch', accept: true }))
+      engine.step(DT)
+      assert.equal(engine.gameState.series.gameNumber, 1)
+      assert.deepEqual(engine.gameState.series.wins, { blue: 0, gold: 0 })
+      assert.equal(engine.gameState.status, 'waiting')
+    })
+  })
+
+  describe('disconnects', () => {
+    it('drops a disconnected carrier\'s berry where they were', () => {
+      const { engine } = createTestEngine()
+      startMatch(engine)
+      const worker = findPlayer(engine, 'blue', 'worker')
+      const berry = Object.values(engine.gameState.berries)[0]
+      worker.position = [...berry.position]
+      engine.queueInput(worker.id, { type: 'collectBerry', berryId: berry.id })
+      engine.step(DT)
+      assert.equal(berry.carrierId, worker.id)
+
+      worker.position = [3, 6, -2]
+      engine.deactivatePlayer(worker.id)
+
+      assert.equal(worker.isActive, false)
+      assert.equal(berry.carrierId, null)
+      assert.equal(berry.position[0], 3)
+      assert.equal(berry.position[2], -2)
+    })
+
+    it('takes a disconnected rider off the snail and stops it', () => {
+      const { engine } = createTestEngine()
+      startMatch(engine)
+      const worker = findPlayer(engine, 'blue', 'worker')
+      worker.position = snailWorldPosition(engine.gameState.snailPosition)
+      engine.queueInput(worker.id, { type: 'mountSnail' })
+      engine.step(DT)
+      assert.equal(engine.gameState.snail.riderId, worker.id)
+
+      engine.deactivatePlayer(worker.id)
+      const position = engine.gameState.snailPosition
+      run(engine, 1)
+
+      assert.equal(engine.gameState.snail.riderId, null)
+      assert.equal(engine.gameState.snailPosition, position)
+    })
+
+    it('doesn\'t wait for disconnected players to ready up', () => {
+      const { engine } = createTestEngine()
+      const players = ['a', 'b', 'c'].map(id => engine.addPlayer(id))
+      engine.deactivatePlayer('c')
+      players.slice(0, 2).forEach(player => engine.queueInput(player.id, { type: 'setReady', ready: true }))
+      run(engine, START_COUNTDOWN + DT * 2)
+
+      assert.equal(engine.gameState.status, 'playing')
+    })
+
+    it('keeps a disconnected player\'s place and lets them back in', () => {
+      const { engine } = createTestEngine()
+      const [a] = startMatch(engine)
+      engine.deactivatePlayer(a.id)
+      run(engine, 1)
+      engine.reactivatePlayer(a.id)
+
+      const player = engine.getPlayer(a.id)
+      assert.ok(player)
+      assert.equal(player.isActive, true)
+      assert.equal(player.team, a.team)
+      assert.equal(player.role, a.role)
+    })
+
+    it('forgives a reconnecting player\'s drift for a moment', () => {
+      const { engine, sent } = createTestEngine()
+      const [a] = startMatch(engine)
+      run(engine, MOVE_GRACE_PERIOD + DT)
+      engine.deactivatePlayer(a.id)
+      run(engine, 5)
+      engine.reactivatePlayer(a.id)
+
+      // Jumps out of the arena are corrected but not counted against them
+      const [x, y, z] = a.position
+      const far: Vector3Tuple = [x + 500, y, z]
+      for (let i = 0; i < VIOLATION_LIMIT; i++) {
+        engine.queueInput(a.id, { type: 'move', position: far, rotation: [0, 0, 0] })
+        engine.step(DT)
+      }
+
+      assert.equal(sent.filter(s => s.playerId === a.id && s.event === 'positionCorrection').length, VIOLATION_LIMIT)
+      assert.deepEqual(engine.getFlaggedPlayers(), [])
+      assert.notDeepEqual(engine.gameState.players[a.id].position, far)
+    })
+
+    it('doesn\'t leave a team without a queen when their dead queen leaves', () => {
+      const { engine } = createTestEngine()
+      startMatch(engine)
+      const blueQueen = findPlayer(engine, 'blue', 'queen')
+      const goldQueen = findPlayer(engine, 'gold', 'queen')
+      attack(engine, blueQueen, goldQueen)
+      assert.equal(engine.gameState.goldQueenAlive, false)
+
+      engine.removePlayer(goldQueen.id)
+
+      assert.equal(engine.gameState.goldQueenAlive, true)
+      assert.equal(engine.getPlayer(goldQueen.id), undefined)
+    })
+
+    it('flags players who keep sending impossible moves', () => {
+      const { engine } = createTestEngine()
+      const [a] = startMatch(engine)
+      run(engine, MOVE_GRACE_PERIOD + DT)
+
+      const [x, y, z] = a.position
+      for (let i = 0; i < VIOLATION_LIMIT; i++) {
+        engine.queueInput(a.id, { type: 'move', position: [x + 500, y, z], rotation: [0, 0, 0] })
+        engine.step(DT)
+      }
+
+      assert.deepEqual(engine.getFlaggedPlayers(), [a.id])
+    })
+
+    it('never corrects a bee flown by the client\'s flight model', () => {
+      const { engine, sent } = createTestEngine()
+      startMatch(engine)
+      run(engine, MOVE_GRACE_PERIOD + DT)
+
+      // Every role at 60 frames a second: full throttle, climbing into the
+      // ceiling for four seconds, then diving into the floor for four
+      const frame = 1 / 60
+      for (const role of ['queen', 'worker'] as const) {
+        const bee = findPlayer(engine, 'blue', role)
+        const position = [...bee.position]
+        const velocity = [0, 0, 0]
+        for (let i = 0; i < 8 * 60; i++) {
+          const climbing = i < 4 * 60
+          const yaw = i * frame
+          velocity[0] += -Math.sin(yaw) * FLIGHT_SETTINGS.FORWARD_SPEED / BEE_BODY.mass
+          velocity[2] += -Math.cos(yaw) * FLIGHT_SETTINGS.FORWARD_SPEED / BEE_BODY.mass
+          velocity[1] += (climbing ? FLIGHT_SETTINGS.ASCEND_SPEED : -FLIGHT_SETTINGS.DESCEND_SPEED) / BEE_BODY.mass - 9.81 * frame
+          for (let axis = 0; axis < 3; axis++) {
+            velocity[axis] /= 1 + frame * BEE_BODY.linearDamping
+          }
+          const speed = Math.hypot(velocity[0], velocity[2])
+          if (speed > ROLE_MAX_VELOCITY[role]) {
+            velocity[0] *= ROLE_MAX_VELOCITY[role] / speed
+            velocity[2] *= ROLE_MAX_VELOCITY[role] / speed
+          }
+          velocity[1] = Math.max(-FLIGHT_SETTINGS.MAX_VERTICAL_VELOCITY, Math.min(FLIGHT_SETTINGS.MAX_VERTICAL_VELOCITY, velocity[1]))
+          for (let axis = 0; axis < 3; axis++) {
+            position[axis] += velocity[axis] * frame
+          }
+          position[1] = Math.max(ARENA_BOUNDS.minY, Math.min(ARENA_BOUNDS.maxY, position[1]))
+
+          // The server ticks at half the client's frame rate
+          if (i % 2 === 1) {
+            engine.queueInput(bee.id, { type: 'move', position: [position[0], position[1], position[2]], rotation: [0, yaw, 0] })
+            engine.step(DT)
+          }
+        }
+        assert.equal(engine.gameState.players[bee.id].position[1], ARENA_BOUNDS.minY)
+      }
+
+      assert.equal(sent.filter(s => s.event === 'positionCorrection').length, 0)
+      assert.deepEqual(engine.getFlaggedPlayers(), [])
+    })
+
+    it('holds each role to its own top speed', () => {
+      const { engine, sent } = createTestEngine()
+      startMatch(engine)
+      run(engine, MOVE_GRACE_PERIOD + DT)
+      const queen = findPlayer(engine, 'blue', 'queen')
+      const worker = findPlayer(engine, 'blue', 'worker')
+      queen.position = [-60, 10, 0]
+      worker.position = [-60, 10, 2]
+
+      // Both fly side by side at the queen's top speed for two seconds
+      for (let i = 1; i <= 60; i++) {
+        const x = -60 + i * ROLE_MAX_VELOCITY.queen * DT
+        engine.queueInput(queen.id, { type: 'move', position: [x, 10, 0], rotation: [0, 0, 0] })
+        engine.queueInput(worker.id, { type: 'move', position: [x, 10, 2], rotation: [0, 0, 0] })
+        engine.step(DT)
+      }
+
+      const corrections = (playerId: string) => sent.filter(s => s.playerId === playerId && s.event === 'positionCorrection').length
+      assert.equal(corrections(queen.id), 0)
+      assert.ok(corrections(worker.id) > 0)
+    })
+
+    it('doesn\'t let a player save up a long jump by holding back updates', () => {
+      const { engine, sent } = createTestEngine()
+      const [a] = startMatch(engine)
+      run(engine, MOVE_GRACE_PERIOD + DT)
+
+      // A second of flight at top speed, sent as a single update
+      const [x, y, z] = a.position
+      run(engine, 1)
+      engine.queueInput(a.id, { type: 'move', position: [x + ROLE_MAX_VELOCITY[a.role], y, z], rotation: [0, 0, 0] })
+      engine.step(DT)
+
+      assert.equal(sent.filter(s => s.playerId === a.id && s.event === 'positionCorrection').length, 1)
+      assert.deepEqual(engine.gameState.players[a.id].position, [x, y, z])
+    })
+
+    it('drops inputs from players who have left', () => {
+      const { engine } = createTestEngine()
+      startMatch(engine)
+      const worker = findPlayer(engine, 'blue', 'worker')
+      const berry = Object.values(engine.gameState.berries)[0]
+      worker.position = [...berry.position]
+      engine.queueInput(worker.id, { type: 'collectBerry', berryId: berry.id })
+      engine.removePlayer(worker.id)
+      engine.step(DT)
+
+      assert.equal(berry.carrierId, null)
+    })
+  })
+
+  describe('admin controls', () => {
+    it('holds a paused match still until it resumes', () => {
+      const { engine } = createTestEngine()
+      startMatch(engine)
+      const worker = findPlayer(engine, 'blue', 'worker')
+      const berry = Object.values(engine.gameState.berries)[0]
+      const matchTime = engine.gameState.matchTime
+
+      assert.equal(engine.setPaused(true), true)
+      assert.equal(engine.setPaused(true), false)
+      worker.position = [...berry.position]
+      engine.queueInput(worker.id, { type: 'collectBerry', berryId: berry.id })
+      run(engine, 1)
+
+      assert.equal(engine.gameState.matchTime, matchTime)
+      assert.equal(berry.carrierId, null)
+
+      engine.setPaused(false)
+      run(engine, 1)
+      assert.ok(engine.gameState.matchTime > matchTime)
+    })
+
+    it('moves a player into a slot mid-match, taking the crown from the old queen', () => {
+      const { engine } = createTestEngine()
+      startMatch(engine)
+      const worker = findPlayer(engine, 'blue', 'worker')
+      const goldQueen = findPlayer(engine, 'gold', 'queen')
+      const berry = Object.values(engine.gameState.berries)[0]
+      berry.carrierId = worker.id
+      engine.killPlayer(goldQueen, worker.id, 'combat')
+
+      assert.equal(engine.moveToSlot(worker.id, 'gold', 'queen'), 'moved')
+      assert.equal(engine.moveToSlot(worker.id, 'gold', 'queen'), 'unchanged')
+      assert.equal(engine.moveToSlot('nobody', 'gold', 'queen'), 'no_such_player')
+
+      assert.equal(worker.team, 'gold')
+      assert.equal(goldQueen.role, 'worker')
+      assert.equal(berry.carrierId, null)
+      // The new queen is alive, even though the old one wasn't
+      assert.equal(engine.gameState.goldQueenAlive, true)
+      // Blue's queen didn't move
+      assert.equal(findPlayer(engine, 'blue', 'queen').team, 'blue')
+    })
+
+    it('records role changes and berries spent at gates in the replay', () => {
+      const { engine, replays } = createTestEngine()
+      startMatch(engine)
+      const worker = findPlayer(engine, 'blue', 'worker')
+      const gate = Object.values(engine.gameState.gates)[0]
+      const berry = Object.values(engine.gameState.berries)[0]
+      gate.team = 'blue'
+      berry.carrierId = worker.id
+      worker.position = [...gate.position]
+      engine.queueInput(worker.id, { type: 'enterGate', gateId: gate.id })
+      run(engine, GATE_USE_DURATION + DT * 2)
+      assert.equal(worker.role, 'soldier')
+
+      engine.moveToSlot(worker.id, 'gold', 'queen')
+      engine.endGame('gold', 'military')
+
+      const changes = replays[0].events.filter(event => event.type === 'berrySpent' || event.type === 'role')
+      assert.deepEqual(changes.map(event => Object.fromEntries(Object.entries(event).filter(([key]) => key !== 't'))), [
+        { type: 'berrySpent', playerId: worker.id, berryId: berry.id },
+        { type: 'role', playerId: worker.id, team: 'blue', role: 'soldier' },
+        { type: 'role', playerId: findPlayer(engine, 'gold', 'worker').id, team: 'gold', role: 'worker' },
+        { type: 'role', playerId: worker.id, team: 'gold', role: 'queen' }
+      ])
+    })
+
+    it('applies changed rules from the next score and the next series', () => {
+      const { engine } = createTestEngine()
+      startMatch(engine)
+      const blueQueen = findPlayer(engine, 'blue', 'queen')
+      const goldQueen = findPlayer(engine, 'gold', 'queen')
+
+      const changes = parseRuleChanges({ queenKillsToWin: 1, queenRespawnDelay: 1, seriesBestOf: 5 })
+      assert.ok(changes.ok)
+      engine.updateRules(changes.value)
+      assert.equal(engine.gameState.rules.queenKillsToWin, 1)
+      assert.equal(engine.gameState.series.bestOf, 3)
+
+      attack(engine, blueQueen, goldQueen)
+      assert.equal(goldQueen.respawnTime, 1)
+      assert.equal(engine.gameState.status, 'ended')
+
+      engine.resetToLobby()
+      assert.equal(engine.gameState.series.bestOf, 5)
+    })
+
+    it('rejects rule changes out of range', () => {
+      assert.equal(parseRuleChanges({}).ok, false)
+      assert.equal(parseRuleChanges({ berriesToWin: 0 }).ok, false)
+      assert.equal(parseRuleChanges({ queenKillsToWin: 2.5 }).ok, false)
+      assert.equal(parseRuleChanges({ seriesBestOf: 4 }).ok, false)
+      assert.equal(parseRuleChanges({ gravity: 2 }).ok, false)
+      assert.equal(parseRuleChanges({ playerRespawnDelay: 1.5 }).ok, true)
+    })
+
+    it('goes back to the lobby with everyone on their team', () => {
+      const { engine } = createTestEngine()
+      const players = startMatch(engine)
+
+      engine.setPaused(true)
+      engine.resetToLobby()
+
+      assert.equal(engine.gameState.status, 'waiting')
+      assert.equal(engine.gameState.paused, false)
+      for (const player of players) {
+        const now = engine.gameState.players[player.id]
+        assert.equal(now.team, player.team)
+        assert.equal(now.isReady, false)
+      }
+      run(engine, START_COUNTDOWN + DT * 2)
+      assert.equal(engine.gameState.status, 'waiting')
+    })
+  })
+
+  describe('rule presets', () => {
+    it('plays by the preset the engine was created with', () => {
+      const { engine, events } = createTestEngine(NO_BOTS, RULE_PRESETS.quick)
+      const players = Array.from({ length: 4 }, (_, i) => engine.addPlayer(`p${i + 1}`))
+      players.forEach(player => engine.queueInput(player.id, { type: 'setReady', ready: true }))
+      run(engine, RULE_PRESETS.quick.startCountdown + DT * 2)
+      assert.equal(engine.gameState.status, 'playing')
+      assert.equal(engine.gameState.rules.preset, 'quick')
+      assert.equal(engine.gameState.series.bestOf, 1)
+
+      const blueQueen = findPlayer(engine, 'blue', 'queen')
+      const goldQueen = findPlayer(engine, 'gold', 'queen')
+      attack(engine, blueQueen, goldQueen)
+      // The respawn timer already ran for the rest of the step
+      assert.ok(Math.abs(goldQueen.respawnTime - (RULE_PRESETS.quick.queenRespawnDelay - DT)) < 1e-9)
+      run(engine, RULE_PRESETS.quick.queenRespawnDelay + DT)
+      attack(engine, blueQueen, goldQueen)
+
+      assert.deepEqual(events.find(e => e.event === 'gameOver')?.payload, { winner: 'blue', reason: 'military' })
+      assert.equal(engine.gameState.series.winner, 'blue')
+    })
+
+    it('goes back to the lobby, keeping everyone, once a finished series has waited too long for a rematch', () => {
+      const { engine } = createTestEngine(NO_BOTS, RULE_PRESETS.quick)
+      const players = startMatch(engine)
+      engine.endGame('gold', 'admin')
+
+      run(engine, RULE_PRESETS.quick.endedResetDelay - 1)
+      assert.equal(engine.gameState.status, 'ended')
+      run(engine, 1 + DT)
+      assert.equal(engine.gameState.status, 'waiting')
+      assert.equal(engine.gameState.series.gameNumber, 1)
+      assert.deepEqual(Object.keys(engine.gameState.players).sort(), players.map(player => player.id).sort())
+    })
+
+    it('reads the default rules from a preset name or a config file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'rules-'))
+      const writeConfig = (config: unknown) => {
+        const path = join(dir, `${Math.random()}.json`)
+        writeFileSync(path, JSON.stringify(config))
+        return path
+      }
+
+      try {
+        assert.equal(rulesFromEnv({}), DEFAULT_RULES)
+        assert.equal(rulesFromEnv({ RULES_PRESET: 'practice' }), RULE_PRESETS.practice)
+        assert.throws(() => rulesFromEnv({ RULES_PRESET: 'chaos' }))
+
+        const rules = rulesFromEnv({ RULES_FILE: writeConfig({ preset: 'tournament', rules: { berriesToWin: 10 } }) })
+        assert.equal(rules.preset, 'custom')
+        assert.equal(rules.berriesToWin, 10)
+        assert.equal(rules.seriesBestOf, RULE_PRESETS.tournament.seriesBestOf)
+        assert.equal(rulesFromEnv({ RULES_FILE: writeConfig({ preset: 'quick' }) }), RULE_PRESETS.quick)
+        assert.throws(() => rulesFromEnv({ RULES_FILE: writeConfig({ rules: { berriesToWin: -1 } }) }), /berriesToWin/)
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    it('marks changed rules as custom', () => {
+      const { engine } = createTestEngine()
+      engine.updateRules({ snailSpeed: 3 })
+      assert.equal(engine.gameState.rules.preset, 'custom')
+      assert.equal(engine.gameState.rules.snailSpeed, 3)
+    })
+  })
+})
@@ -0,0 +1,980 @@
+import { spawnPosition } from './game/arena'
+import { createBerries, depositBerry, dropBerry, getCarriedBerry, pickUpBerry } from './game/berries'
+import { ATTACK_COOLDOWN, resolveAttack } from './game/combat'
+import { captureGate, createGates, enterGate, updateGates } from './game/gates'
+import { MOVE_GRACE_PERIOD, MoveAllowance, VIOLATION_LIMIT, VIOLATION_WINDOW, createMoveAllowance, validateMove } from './game/movement'
+import { BotBrain, BotSettings, DEFAULT_BOT_SETTINGS, createBotBrain, updateBot } from './game/bots'
+import { createSnail, dismountSnail, mountSnail, updateSnail } from './game/snail'
+import { setReady, updateLobby } from './game/lobby'
+import { hasRematchMajority, voteRematch } from './game/rematch'
+import { DEFAULT_RULES } from './game/rules'
+import { answerSwap, claimSlot, dropSwapRequests, requestSwap } from './game/teams'
+import { createSeries, mapForGame, nextGame, recordGameWin, sidesForGame, updateIntermission } from './game/series'
+import { buildMatchResult, createPlayerStats } from './game/summary'
+import { ReplayRecorder } from './replay/recorder'
+import { ReplayEventBody, ReplayFile } from '../../shared/replay'
+import { GameState, KillCause, MatchRules, Player, PlayerInput, PlayerMatchStats, Role, SeriesState, ServerEvent, ServerToClientEvents, Team, Vector3Tuple, WinReason } from './types'
+
+// Fresh game state for one game of a series
+const createGameState = (series: SeriesState, rules: MatchRules): GameState => {
+  const map = mapForGame(series.gameNumber)
+  return {
+    status: 'waiting',
+    countdown: 0,
+    matchTime: 0,
+    players: {},
+    blueScore: 0,
+    goldScore: 0,
+    blueQueenAlive: true,
+    goldQueenAlive: true,
+    snailPosition: 50, // percentage from 0 (left end) to 100 (right end)
+    snail: createSnail(),
+    berries: createBerries(map),
+    gates: createGates(map),
+    berryCount: {
+      blue: 0,
+      gold: 0
+    },
+    result: null,
+    rematchVotes: [],
+    swapRequests: [],
+    spectatorCount: 0,
+    map: { id: map.id, name: map.name },
+    sides: sidesForGame(series.gameNumber),
+    series,
+    rules: { ...rules },
+    paused: false
+  }
+}
+
+interface QueuedInput {
+  playerId: string
+  input: PlayerInput
+}
+
+interface MovementRecord {
+  // How far the player may still move
+  allowance: MoveAllowance
+  // Moves are corrected but not counted as violations until this time
+  graceUntil: number
+  // Simulation times of recent violations
+  violations: number[]
+  flagged: boolean
+}
+
+// How the engine reaches the outside world. Every hook is optional, so tests
+// can run an engine on its own and listen only for what they check.
+export interface EngineHooks {
+  // Send an event to everyone in the match
+  broadcast: <E extends ServerEvent>(event: E, ...args: Parameters<ServerToClientEvents[E]>) => void
+  // Send an event to one player only
+  sendToPlayer: <E extends ServerEvent>(playerId: string, event: E, ...args: Parameters<ServerToClientEvents[E]>) => void
+  // A game finished and its replay is ready to be saved
+  replayFinished: (replay: ReplayFile) => void
+  // A game got past the lobby countdown, or ended
+  gameStarted: () => void
+  gameEnded: (winner: Team, reason: WinReason) => void
+  log: (message: string) => void
+}
+
+const noHooks: EngineHooks = {
+  broadcast: () => {},
+  sendToPlayer: () => {},
+  replayFinished: () => {},
+  gameStarted: () => {},
+  gameEnded: () => {},
+  log: (message) => console.log(message)
+}
+
+export interface EngineOptions {
+  // Used to label logs and replays
+  id: string
+  botSettings?: BotSettings
+  rules?: MatchRules
+  hooks?: Partial<EngineHooks>
+}
+
+/**
+ * The rules of one match, with no sockets or timers attached.
+ *
+ * Game state only changes through the engine: callers queue player inputs and
+ * call `step` with the time to advance, and every step applies the queued
+ * inputs in arrival order, then advances the lobby, respawns, gates, the
+ * snail and the match clock. Time only moves when `step` is called, so a test
+ * can play a whole match in a loop. Events go out through the hooks, and
+ * `takeDirty` tells the caller when the state needs broadcasting.
+ */
+export class GameEngine {
+  readonly id: string
+  gameState: GameState
+  // Steps taken so far
+  tick = 0
+
+  private hooks: EngineHooks
+  private inputQueue: QueuedInput[] = []
+  // Simulation time in seconds
+  private time = 0
+  private dirty = true
+  // Simulation time of each player's last attack, for the attack cooldown
+  private lastAttackAt = new Map<string, number>()
+  // Movement anti-cheat bookkeeping, keyed by player
+  private movement = new Map<string, MovementRecord>()
+  // What each player did this match, for the game-over summary
+  private stats = new Map<string, PlayerMatchStats>()
+  private botSettings: BotSettings
+  private rules: MatchRules
+  // Decision state of each bot player
+  private bots = new Map<string, BotBrain>()
+  private botCount = 0
+  // Players who picked their own slot in the lobby rather than taking the one they were given
+  private chosenSlots = new Set<string>()
+  // Records the game in progress, from the end of the countdown to the result
+  private replay: ReplayRecorder | null = null
+  // Simulation time the last game ended
+  private endedAt = 0
+
+  constructor({ id, botSettings = DEFAULT_BOT_SETTINGS, rules = DEFAULT_RULES, hooks = {} }: EngineOptions) {
+    this.id = id
+    this.botSettings = botSettings
+    this.rules = { ...rules }
+    this.hooks = { ...noHooks, ...hooks }
+    this.gameState = createGameState(createSeries(this.rules.seriesBestOf), this.rules)
+  }
+
+  // Broadcasting
+
+  private emit<E extends ServerEvent>(event: E, ...args: Parameters<ServerToClientEvents[E]>) {
+    this.hooks.broadcast(event, ...args)
+  }
+
+  private log(message: string) {
+    this.hooks.log(message)
+  }
+
+  // Make sure the state goes out with the next snapshot
+  markDirty() {
+    this.dirty = true
+  }
+
+  // Whether the state changed since the last call
+  takeDirty() {
+    const dirty = this.dirty
+    this.dirty = false
+    return dirty
+  }
+
+  // Spectators don't play, but everyone can see how many are watching
+  setSpectatorCount(count: number) {
+    this.gameState.spectatorCount = count
+    this.markDirty()
+  }
+
+  // Players
+
+  // Team and role assignment logic
+  assignTeamAndRole(): { team: Team, role: Role, replacesBotId?: string } {
+    const players = Object.values(this.gameState.players)
+    const humans = players.filter(p => !p.isBot)
+    const blueCount = humans.filter(p => p.team === 'blue').length
+    const goldCount = humans.filter(p => p.team === 'gold').length
+
+    // Assign to team with fewer human players
+    const team = blueCount <= goldCount ? 'blue' : 'gold'
+
+    // Humans take over a bot's place on the team, the queen's first
+    const bot = players
+      .filter(p => p.isBot && p.team === team)
+      .sort((a, b) => Number(b.role === 'queen') - Number(a.role === 'queen'))[0]
+    if (bot) {
+      return { team, role: bot.role, replacesBotId: bot.id }
+    }
+
+    return { team, role: this.nextRoleFor(team) }
+  }
+
+  // Role assignment - first player on each team is queen, everyone after a
+  // worker. Soldiers are only made at gates, with a berry.
+  private nextRoleFor(team: Team): Role {
+    const hasQueen = Object.values(this.gameState.players).some(p => p.team === team && p.role === 'queen')
+    return hasQueen ? 'worker' : 'queen'
+  }
+
+  addPlayer(playerId: string): Player {
+    const { team, role, replacesBotId } = this.assignTeamAndRole()
+    if (replacesBotId) {
+      this.log(`[${this.id}] Player ${playerId} replaces bot ${replacesBotId}`)
+      this.removePlayer(replacesBotId)
+    }
+
+    const player: Player = {
+      id: playerId,
+      // Until they pick a nickname
+      name: `Bee ${playerId.slice(0, 4)}`,
+      position: spawnPosition(this.gameState, team), // Starting position based on team's side
+      rotation: [0, 0, 0],
+      team,
+      role,
+      isActive: true,
+      isAlive: true,
+      respawnTime: 0,
+      isReady: false,
+      isBot: false
+    }
+    this.gameState.players[playerId] = player
+    this.grantMoveGrace(playerId)
+    this.record({ type: 'join', playerId, team, role, isBot: false, name: player.name })
+
+    this.markDirty()
+    return player
+  }
+
+  getPlayer(playerId: string | undefined): Player | undefined {
+    return playerId ? this.gameState.players[playerId] : undefined
+  }
+
+  // A disconnected or leaving player can't keep holding a berry or riding the snail
+  deactivatePlayer(playerId: string) {
+    const player = this.gameState.players[playerId]
+    if (!player) return
+
+    player.isActive = false
+    this.dropCarriedBerry(player)
+    dismountSnail(this.gameState, playerId)
+    this.markDirty()
+  }
+
+  renamePlayer(playerId: string, name: string) {
+    const player = this.gameState.players[playerId]
+    if (!player || player.name === name) return
+
+    this.log(`[${this.id}] Player ${playerId} is now called ${name}`)
+    player.name = name
+    this.markDirty()
+  }
+
+  reactivatePlayer(playerId: string) {
+    const player = this.gameState.players[playerId]
+    if (!player) return
+
+    player.isActive = true
+    // The client may have drifted while disconnected
+    this.grantMoveGrace(playerId)
+    this.markDirty()
+  }
+
+  removePlayer(playerId: string) {
+    const player = this.gameState.players[playerId]
+    if (player) {
+      this.dropCarriedBerry(player)
+      dismountSnail(this.gameState, playerId)
+      this.record({ type: 'leave', playerId })
+
+      // Don't leave the team without a living queen flag if their dead queen leaves
+      if (player.role === 'queen' && !player.isAlive) {
+        this.setQueenAlive(player.team, true)
+      }
+    }
+    dropSwapRequests(this.gameState, playerId)
+    this.chosenSlots.delete(playerId)
+    this.lastAttackAt.delete(playerId)
+    this.bots.delete(playerId)
+    this.movement.delete(playerId)
+    delete this.gameState.players[playerId]
+    this.markDirty()
+  }
+
+  // Bots
+
+  // Fill each team up to the bot team size while any human is in the room, and
+  // drop bots that are no longer needed
+  private syncBots() {
+    const players = Object.values(this.gameState.players)
+    const teamSize = players.some(player => !player.isBot) ? this.botSettings.teamSize : 0
+
+    for (const team of ['blue', 'gold'] as const) {
+      const members = players.filter(player => player.team === team)
+      // Keep the bot queen longest
+      const bots = members
+        .filter(player => player.isBot)
+        .sort((a, b) => Number(a.role === 'queen') - Number(b.role === 'queen'))
+
+      for (let i = 0; i < Math.min(bots.length, members.length - teamSize); i++) {
+        this.log(`[${this.id}] Removing bot ${bots[i].id}`)
+        this.removePlayer(bots[i].id)
+      }
+      for (let i = members.length; i < teamSize; i++) {
+        this.addBot(team)
+      }
+    }
+  }
+
+  private addBot(team: Team) {
+    const id = `bot-${++this.botCount}`
+    const role = this.nextRoleFor(team)
+    const name = `Bot ${this.botCount}`
+
+    this.gameState.players[id] = {
+      id,
+      name,
+      position: spawnPosition(this.gameState, team),
+      rotation: [0, 0, 0],
+      team,
+      role,
+      isActive: true,
+      isAlive: true,
+      respawnTime: 0,
+      // Bots never hold up the lobby
+      isReady: true,
+      isBot: true
+    }
+    this.bots.set(id, createBotBrain(this.botSettings.difficulty))
+    this.grantMoveGrace(id)
+    this.record({ type: 'join', playerId: id, team, role, isBot: true, name })
+
+    this.log(`[${this.id}] Bot ${id} joined as ${role} on ${team} team (${this.botSettings.difficulty})`)
+    this.markDirty()
+  }
+
+  // Inputs
+
+  // Queue a gameplay input to be applied on the next tick
+  queueInput(playerId: string, input: PlayerInput) {
+    this.inputQueue.push({ playerId, input })
+  }
+
+  private applyInput({ playerId, input }: QueuedInput) {
+    const { gameState } = this
+    const player = this.getPlayer(playerId)
+    if (!player) return
+
+    // Movement is always accepted from the living; everything else needs a running match
+    if (input.type === 'move') {
+      if (player.isAlive) {
+        this.applyMove(player, input.position, input.rotation)
+      }
+      return
+    }
+
+    // Rematch votes only count once the series has ended
+    if (input.type === 'voteRematch') {
+      const result = voteRematch(gameState, player, input.accept)
+      if (result === 'voted') {
+        this.markDirty()
+      } else {
+        this.log(`[${this.id}] Rejected rematch vote from ${player.id}: ${result}`)
+      }
+      return
+    }
+
+    // Readying up only happens in the lobby
+    if (input.type === 'setReady') {
+      const result = setReady(gameState, player, input.ready)
+      if (result === 'updated') {
+        this.markDirty()
+      } else {
+        this.log(`[${this.id}] Rejected ready change from ${player.id}: ${result}`)
+      }
+      return
+    }
+
+    // Slots are picked in the lobby
+    if (input.type === 'claimSlot') {
+      this.claimSlot(player, input.team, input.role)
+      return
+    }
+
+    if (input.type === 'requestSwap') {
+      const result = requestSwap(gameState, player, input.playerId)
+      if (result === 'requested') {
+        this.log(`[${this.id}] Player ${player.id} asked ${input.playerId} to swap slots`)
+        this.markDirty()
+      } else {
+        this.log(`[${this.id}] Rejected swap request from ${player.id}: ${result}`)
+      }
+      return
+    }
+
+    if (input.type === 'answerSwap') {
+      const requester = this.getPlayer(input.playerId)
+      const previousRoles = { requester: requester?.role, player: player.role }
+      const result = answerSwap(gameState, player, input.playerId, input.accept)
+      if (result === 'swapped' && requester) {
+        this.log(`[${this.id}] Players ${requester.id} and ${player.id} swapped slots`)
+        this.chosenSlots.add(requester.id)
+        this.chosenSlots.add(player.id)
+        this.placeInSlot(requester, previousRoles.requester)
+        this.placeInSlot(player, previousRoles.player)
+        this.markDirty()
+      } else if (result === 'declined') {
+        this.markDirty()
+      } else {
+        this.log(`[${this.id}] Rejected swap answer from ${player.id}: ${result}`)
+      }
+      return
+    }
+
+    if (gameState.status !== 'playing') return
+
+    switch (input.type) {
+      case 'collectBerry': {
+        // Only workers close enough to a free berry can pick it up
+        const result = pickUpBerry(gameState, player, input.berryId)
+        if (result === 'picked_up') {
+          this.log(`[${this.id}] Player ${player.id} picked up ${input.berryId}`)
+          this.record({ type: 'berryPickup', playerId: player.id, berryId: input.berryId })
+          this.markDirty()
+        } else {
+          this.log(`[${this.id}] Rejected berry pickup from ${player.id}: ${result}`)
+        }
+        break
+      }
+
+      case 'depositBerry': {
+        const berryId = getCarriedBerry(gameState, player.id)?.id ?? ''
+        const result = depositBerry(gameState, player)
+        if (result === 'deposited') {
+          this.statsFor(player.id).berriesDeposited++
+          this.record({ type: 'berryDeposit', playerId: player.id, berryId, team: player.team })
+
+          // Check for economic victory
+          if (gameState.berryCount[player.team] >= this.rules.berriesToWin) {
+            this.endGame(player.team, 'economic')
+          }
+          this.markDirty()
+        } else {
+          this.log(`[${this.id}] Rejected berry deposit from ${player.id}: ${result}`)
+        }
+        break
+      }
+
+      case 'captureGate': {
+        const result = captureGate(gameState, player, input.gateId)
+        if (result === 'captured') {
+          this.log(`[${this.id}] ${player.team} queen captured ${input.gateId}`)
+          this.record({ type: 'gateCaptured', gateId: input.gateId, team: player.team })
+          this.markDirty()
+        } else {
+          this.log(`[${this.id}] Rejected gate capture from ${player.id}: ${result}`)
+        }
+        break
+      }
+
+      case 'enterGate': {
+        const result = enterGate(gameState, player, input.gateId)
+        if (result === 'entered') {
+          this.markDirty()
+        } else {
+          this.log(`[${this.id}] Rejected gate entry from ${player.id}: ${result}`)
+        }
+        break
+      }
+
+      case 'mountSnail': {
+        // Only workers next to the snail can ride it - it then moves on its own
+        const result = mountSnail(gameState, player)
+        if (result === 'mounted' || result === 'contesting') {
+          this.log(`[${this.id}] Player ${player.id} ${result} the snail`)
+          this.markDirty()
+        } else {
+          this.log(`[${this.id}] Rejected snail mount from ${player.id}: ${result}`)
+        }
+        break
+      }
+
+      case 'dismountSnail': {
+        if (dismountSnail(gameState, player.id)) {
+          this.markDirty()
+        }
+        break
+      }
+
+      case 'attack': {
+        // Ignore attacks faster than the cooldown allows
+        const now = this.now()
+        const lastAttackAt = this.lastAttackAt.get(player.id)
+        if (lastAttackAt !== undefined && now - lastAttackAt < ATTACK_COOLDOWN) break
+        this.lastAttackAt.set(player.id, now)
+
+        // Check the attacker's position and facing against every enemy hitbox
+        const result = resolveAttack(gameState, player)
+        if (result.type === 'hit') {
+          this.killPlayer(result.victim, player.id, 'combat')
+        }
+        break
+      }
+    }
+  }
+
+  // Slot selection
+
+  private claimSlot(player: Player, team: Team, role: Role) {
+    const previous = { team: player.team, role: player.role }
+    const result = claimSlot(this.gameState, player, team, role)
+    if (result !== 'claimed') {
+      this.log(`[${this.id}] Rejected slot claim from ${player.id}: ${result}`)
+      return
+    }
+
+    this.log(`[${this.id}] Player ${player.id} picked ${role} on ${team} team`)
+    this.chosenSlots.add(player.id)
+
+    // A bot holding the crown gives it up
+    if (role === 'queen') {
+      const botQueen = Object.values(this.gameState.players).find(p =>
+        p.isBot && p.team === team && p.role === 'queen')
+      if (botQueen) {
+        this.setRole(botQueen, 'worker')
+      }
+    }
+
+    this.placeInSlot(player, previous.role)
+    if (previous.role === 'queen') {
+      this.crownReplacementQueen(previous.team)
+    }
+    this.markDirty()
+  }
+
+  // Move a player who changed slots to their new team's base
+  private placeInSlot(player: Player, previousRole: Role | undefined) {
+    player.position = spawnPosition(this.gameState, player.team)
+    player.rotation = [0, 0, 0]
+    this.grantMoveGrace(player.id)
+    this.emit('playerRespawned', { playerId: player.id, position: player.position })
+    if (player.role !== previousRole) {
+      this.emit('roleChanged', { playerId: player.id, role: player.role })
+    }
+  }
+
+  private setRole(player: Player, role: Role) {
+    player.role = role
+    this.emit('roleChanged', { playerId: player.id, role })
+    this.record({ type: 'role', playerId: player.id, team: player.team, role })
+  }
+
+  // A team whose queen picked another slot gets a new one: a bot if there
+  // is one, otherwise someone who never picked a slot themselves
+  private crownReplacementQueen(team: Team) {
+    const members = Object.values(this.gameState.players).filter(player => player.team === team)
+    if (members.some(player => player.role === 'queen')) return
+
+    const successor = members.find(player => player.isBot) ?? members.find(player => !this.chosenSlots.has(player.id))
+    if (successor) {
+      this.log(`[${this.id}] ${successor.id} takes over as ${team} queen`)
+      this.setRole(successor, 'queen')
+    }
+  }
+
+  // Put a player in a slot at any point in the match, e.g. on an admin's
+  // orders. Whoever wore that team's crown steps down to worker.
+  moveToSlot(playerId: string, team: Team, role: Role): 'moved' | 'no_such_player' | 'unchanged' {
+    const player = this.getPlayer(playerId)
+    if (!player) return 'no_such_player'
+    if (player.team === team && player.role === role) return 'unchanged'
+
+    const previous = { team: player.team, role: player.role }
+    this.dropCarriedBerry(player)
+    dismountSnail(this.gameState, player.id)
+
+    if (role === 'queen') {
+      const queen = Object.values(this.gameState.players).find(p => p.team === team && p.role === 'queen')
+      if (queen) {
+        this.setRole(queen, 'worker')
+      }
+    }
+
+    player.team = team
+    player.role = role
+    dropSwapRequests(this.gameState, player.id)
+    this.chosenSlots.add(player.id)
+    this.record({ type: 'role', playerId: player.id, team, role })
+    this.placeInSlot(player, previous.role)
+    if (previous.role === 'queen') {
+      this.crownReplacementQueen(previous.team)
+    }
+
+    // Queen status follows whoever wears each crown now
+    for (const side of new Set([team, previous.team])) {
+      const queen = Object.values(this.gameState.players).find(p => p.team === side && p.role === 'queen')
+      this.setQueenAlive(side, queen?.isAlive ?? true)
+    }
+
+    this.log(`[${this.id}] Player ${player.id} moved to ${role} on ${team} team`)
+    this.markDirty()
+    return 'moved'
+  }
+
+  // Movement validation
+
+  private getMovementRecord(playerId: string): MovementRecord {
+    let record = this.movement.get(playerId)
+    if (!record) {
+      record = { allowance: createMoveAllowance(this.now()), graceUntil: 0, violations: [], flagged: false }
+      this.movement.set(playerId, record)
+    }
+    return record
+  }
+
+  // Don't count violations for a moment after the server moves a player, while
+  // the client is still catching up
+  private grantMoveGrace(playerId: string) {
+    this.getMovementRecord(playerId).graceUntil = this.now() + MOVE_GRACE_PERIOD
+  }
+
+  // Accept a reported position only if the flight model could have reached it
+  private applyMove(player: Player, position: Vector3Tuple, rotation: Vector3Tuple) {
+    const now = this.now()
+    const record = this.getMovementRecord(player.id)
+
+    // Riders are carried by the snail and can't move themselves
+    if (this.gameState.snail.riderId === player.id) return
+
+    const check = validateMove(player, position, rotation, record.allowance, now)
+    if (check.ok) {
+      player.position = position
+      player.rotation = rotation
+      this.markDirty()
+      return
+    }
+
+    // Put the client back where the server thinks it is
+    this.hooks.sendToPlayer(player.id, 'positionCorrection', { position: player.position })
+    if (now < record.graceUntil) return
+
+    record.violations = record.violations.filter(time => now - time < VIOLATION_WINDOW)
+    record.violations.push(now)
+    this.log(`[${this.id}] Rejected move from ${player.id}: ${check.reason}`)
+
+    if (!record.flagged && record.violations.length >= VIOLATION_LIMIT) {
+      record.flagged = true
+      this.log(`[${this.id}] Flagged ${player.id} for repeated movement violations`)
+    }
+  }
+
+  // Players with repeated movement violations
+  getFlaggedPlayers() {
+    return [...this.movement.entries()]
+      .filter(([, record]) => record.flagged)
+      .map(([playerId]) => playerId)
+  }
+
+  private statsFor(playerId: string): PlayerMatchStats {
+    let stats = this.stats.get(playerId)
+    if (!stats) {
+      stats = createPlayerStats()
+      this.stats.set(playerId, stats)
+    }
+    return stats
+  }
+
+  // Simulation
+
+  // Current simulation time in seconds
+  now() {
+    return this.time
+  }
+
+  // Advance the match by `dt` seconds
+  step(dt: number) {
+    this.tick++
+    this.time += dt
+
+    // Keep the teams topped up with bots, who decide their inputs alongside everyone else's
+    this.syncBots()
+
+    // A paused match stands still, and inputs sent meanwhile are dropped
+    if (this.gameState.paused) {
+      this.inputQueue = []
+      return
+    }
+
+    if (this.gameState.status === 'playing') {
+      for (const [botId, brain] of this.bots) {
+        const bot = this.gameState.players[botId]
+        updateBot(this.gameState, bot, brain, this.now(), dt).forEach(input => this.queueInput(botId, input))
+      }
+    }
+
+    // Apply queued inputs in the order they arrived
+    const inputs = this.inputQueue
+    this.inputQueue = []
+    inputs.forEach(input => this.applyInput(input))
+
+    // Lobby: ready check and the countdown to play
+    if (this.gameState.status === 'waiting' || this.gameState.status === 'starting') {
+      const events = updateLobby(this.gameState, dt)
+      events.forEach(event => this.log(`[${this.id}] Lobby: ${event.type}`))
+      if (events.some(event => event.type === 'started')) {
+        this.startRecording()
+        this.hooks.gameStarted()
+      }
+      if (events.length > 0 || this.gameState.status === 'starting') {
+        this.markDirty()
+      }
+    }
+
+    if (this.gameState.status === 'ended') {
+      const { series } = this.gameState
+      if (series.winner) {
+        // Start a new series as soon as most players want a rematch, or go
+        // back to the lobby if nobody asks for one for too long. Everyone keeps
+        // their place, so their sockets and session tokens still lead to them.
+        if (hasRematchMajority(this.gameState)) {
+          this.restart()
+        } else if (this.now() - this.endedAt >= this.rules.endedResetDelay) {
+          this.resetToLobby()
+        }
+      } else {
+        // Between games of a series
+        if (updateIntermission(series, dt)) {
+          this.startGame(nextGame(series))
+        }
+        this.markDirty()
+      }
+      return
+    }
+
+    if (this.gameState.status !== 'playing') return
+
+    // Match clock
+    this.gameState.matchTime += dt
+    this.markDirty()
+
+    // Respawn timers
+    for (const player of Object.values(this.gameState.players)) {
+      if (!player.isAlive) {
+        player.respawnTime = Math.max(0, player.respawnTime - dt)
+        if (player.respawnTime === 0) {
+          this.respawnPlayer(player)
+        }
+      }
+    }
+
+    // Warrior gates
+    for (const event of updateGates(this.gameState, dt)) {
+      if (event.type === 'promoted') {
+        const { team } = this.gameState.players[event.playerId]
+        this.log(`[${this.id}] Player ${event.playerId} became a soldier at ${event.gateId}`)
+        this.emit('roleChanged', { playerId: event.playerId, role: 'soldier' })
+        this.record({ type: 'berrySpent', playerId: event.playerId, berryId: event.berryId })
+        this.record({ type: 'role', playerId: event.playerId, team, role: 'soldier' })
+      }
+    }
+
+    // Snail
+    for (const event of updateSnail(this.gameState, dt)) {
+      if (event.type === 'moved') {
+        this.statsFor(event.riderId).snailDistance += event.distance
+      } else if (event.type === 'ate') {
+        this.emit('snailAte', { riderId: event.riderId, victimId: event.victimId })
+        const victim = this.getPlayer(event.victimId)
+        if (victim) {
+          this.killPlayer(victim, event.riderId, 'snail')
+        }
+      } else if (event.type === 'goal') {
+        this.endGame(event.winner, 'snail')
+      }
+    }
+
+    this.replay?.update(this.gameState)
+  }
+
+  // Combat
+
+  private setQueenAlive(team: Team, alive: boolean) {
+    if (team === 'blue') {
+      this.gameState.blueQueenAlive = alive
+    } else {
+      this.gameState.goldQueenAlive = alive
+    }
+  }
+
+  // Kill a player and start their respawn timer
+  killPlayer(victim: Player, attackerId: string, cause: KillCause) {
+    const { gameState } = this
+
+    victim.isAlive = false
+    this.dropCarriedBerry(victim)
+    dismountSnail(gameState, victim.id)
+
+    this.statsFor(victim.id).deaths++
+    if (attackerId !== victim.id) {
+      const attackerStats = this.statsFor(attackerId)
+      attackerStats.kills++
+      if (victim.role === 'queen') {
+        attackerStats.queenKills++
+      }
+    }
+
+    // Respawn at base after a delay - queens take longer
+    victim.respawnTime = victim.role === 'queen' ? this.rules.queenRespawnDelay : this.rules.playerRespawnDelay
+
+    this.emit('playerKilled', { attackerId, victimId: victim.id, victimRole: victim.role, cause })
+    this.record({ type: 'kill', attackerId, victimId: victim.id, victimRole: victim.role, cause })
+    this.log(`[${this.id}] ${attackerId} killed ${victim.role} ${victim.id} (${cause})`)
+
+    if (victim.role === 'queen') {
+      // Update queen status
+      this.setQueenAlive(victim.team, false)
+      if (victim.team === 'blue') {
+        gameState.goldScore++
+      } else {
+        gameState.blueScore++
+      }
+      const queenKills = victim.team === 'blue' ? gameState.goldScore : gameState.blueScore
+      this.record({ type: 'queenDeath', team: victim.team, queenKills })
+
+      // Check for military victory
+      if (gameState.blueScore >= this.rules.queenKillsToWin) {
+        this.endGame('blue', 'military')
+      } else if (gameState.goldScore >= this.rules.queenKillsToWin) {
+        this.endGame('gold', 'military')
+      }
+    }
+
+    this.markDirty()
+  }
+
+  private respawnPlayer(player: Player) {
+    player.isAlive = true
+    player.respawnTime = 0
+    player.position = spawnPosition(this.gameState, player.team)
+    this.grantMoveGrace(player.id)
+    if (player.role === 'queen') {
+      this.setQueenAlive(player.team, true)
+    }
+
+    this.emit('playerRespawned', { playerId: player.id, position: player.position })
+    this.record({ type: 'respawn', playerId: player.id })
+    this.markDirty()
+  }
+
+  // Replays
+
+  private record(event: ReplayEventBody) {
+    this.replay?.record(this.gameState.matchTime, event)
+  }
+
+  // Start recording when the countdown ends, with everyone already in the room
+  private startRecording() {
+    this.replay = new ReplayRecorder(this.id, this.gameState)
+    for (const player of Object.values(this.gameState.players)) {
+      this.record({ type: 'join', playerId: player.id, team: player.team, role: player.role, isBot: player.isBot, name: player.name })
+    }
+  }
+
+  // Hand the finished game's replay over to be saved
+  private saveRecording(winner: Team, reason: WinReason) {
+    if (!this.replay) return
+
+    this.record({ type: 'gameOver', winner, reason })
+    const replay = this.replay.finish(this.gameState, winner, reason)
+    this.replay = null
+    this.hooks.replayFinished(replay)
+  }
+
+  // Drop a player's berry, if they carry one, where they stand
+  private dropCarriedBerry(player: Player) {
+    const berry = getCarriedBerry(this.gameState, player.id)
+    if (berry && dropBerry(this.gameState, player)) {
+      const [x, y, z] = berry.position
+      this.record({ type: 'berryDrop', berryId: berry.id, position: [x, y, z] })
+    }
+  }
+
+  // Lifecycle
+
+  // Freeze or unfreeze the match. Returns false if it already was.
+  setPaused(paused: boolean) {
+    if (this.gameState.paused === paused) return false
+
+    this.gameState.paused = paused
+    if (!paused) {
+      // Clients may have drifted while the server held everyone in place
+      Object.keys(this.gameState.players).forEach(playerId => this.grantMoveGrace(playerId))
+    }
+    this.log(`[${this.id}] Match ${paused ? 'paused' : 'resumed'}`)
+    this.markDirty()
+    return true
+  }
+
+  // Change some of the rules. Win targets count from the next berry or queen
+  // kill, timers from the next time they start and the series length from the next series.
+  updateRules(changes: Partial<MatchRules>) {
+    this.rules = { ...this.rules, ...changes, preset: 'custom' }
+    this.gameState.rules = { ...this.rules }
+    this.log(`[${this.id}] Rules changed: ${JSON.stringify(changes)}`)
+    this.markDirty()
+  }
+
+  endGame(winner: Team, reason: WinReason) {
+    // Only the first win condition met counts
+    if (this.gameState.status === 'ended') return
+
+    this.gameState.status = 'ended'
+    this.gameState.result = buildMatchResult(this.gameState, this.stats, winner, reason)
+    this.gameState.rematchVotes = []
+    this.endedAt = this.now()
+    this.emit('gameOver', { winner, reason })
+    this.hooks.gameEnded(winner, reason)
+    this.saveRecording(winner, reason)
+
+    const { series } = this.gameState
+    if (recordGameWin(series, winner, this.rules.nextGameDelay)) {
+      this.emit('seriesOver', { winner, wins: { ...series.wins }, bestOf: series.bestOf })
+      this.log(`[${this.id}] ${winner} won the series ${series.wins.blue}-${series.wins.gold}`)
+    }
+    this.markDirty()
+  }
+
+  // Start a new series after a rematch vote
+  restart() {
+    this.log(`[${this.id}] Rematch - starting a new series`)
+    this.startGame(createSeries(this.rules.seriesBestOf))
+  }
+
+  // Throw away the match in progress and go back to the lobby for a new
+  // series, with the same players on the same teams readying up again
+  resetToLobby() {
+    this.log(`[${this.id}] Back to the lobby for a new series`)
+    this.startGame(createSeries(this.rules.seriesBestOf))
+    for (const player of Object.values(this.gameState.players)) {
+      player.isReady = player.isBot
+    }
+  }
+
+  // Start a game of a series with the same players on the same teams, on the
+  // game's map and sides. Everyone is marked ready, so the countdown starts right away.
+  private startGame(series: SeriesState) {
+    const players = Object.values(this.gameState.players)
+    const { spectatorCount } = this.gameState
+    this.gameState = createGameState(series, this.rules)
+    this.gameState.spectatorCount = spectatorCount
+    this.inputQueue = []
+    this.lastAttackAt.clear()
+    this.stats.clear()
+    this.replay = null
+
+    for (const player of players) {
+      // Soldiers start the new match as workers again
+      const role = player.role === 'soldier' ? 'worker' : player.role
+      this.gameState.players[player.id] = {
+        ...player,
+        role,
+        position: spawnPosition(this.gameState, player.team),
+        rotation: [0, 0, 0],
+        isAlive: true,
+        respawnTime: 0,
+        isReady: true
+      }
+      this.grantMoveGrace(player.id)
+
+      if (role !== player.role) {
+        this.emit('roleChanged', { playerId: player.id, role })
+      }
+      this.emit('playerRespawned', { playerId: player.id, position: this.gameState.players[player.id].position })
+    }
+
+    this.markDirty()
+    this.log(`[${this.id}] Game ${series.gameNumber} of ${series.bestOf} on ${this.gameState.map.name}`)
+  }
+}
@@ -0,0 +1,30 @@
+import { GameState, Side, Team, Vector3Tuple } from '../types'
+
+// Where players (re)spawn, next to the base on their side
+export const SPAWN_POSITIONS: Record<Side, Vector3Tuple> = {
+  left: [-15, 5, 0],
+  right: [15, 5, 0]
+}
+
+// Sides teams play from in the first game of a series
+export const DEFAULT_SIDES: Record<Team, Side> = {
+  blue: 'left',
+  gold: 'right'
+}
+
+// The snail track runs along the x axis in front of the central platform
+export const SNAIL_TRACK = {
+  startX: -15, // snail position 0
+  endX: 15, // snail position 100
+  y: 0.8,
+  z: 8
+}
+
+export const distance = (a: Vector3Tuple, b: Vector3Tuple) =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+
+export const spawnPosition = (gameState: GameState, team: Team): Vector3Tuple =>
+  [...SPAWN_POSITIONS[gameState.sides[team]]]
+
+export const teamOnSide = (gameState: GameState, side: Side): Team =>
+  gameState.sides.blue === side ? 'blue' : 'gold'
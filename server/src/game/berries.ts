@@ -0,0 +1,76 @@
+import { DEFAULT_RULES } from '../../../shared/rules'
+import { Berry, GameState, Player, Side, Vector3Tuple } from '../types'
+import { distance } from './arena'
+import { BERRY_REST_HEIGHT, MapDefinition } from './maps'
+
+// Berries needed in the hive for an economic victory under the standard rules
+export const BERRY_WIN_COUNT = DEFAULT_RULES.berriesToWin
+
+// How close a worker has to be to a berry to pick it up
+export const BERRY_PICKUP_RADIUS = 2.5
+
+// How close a worker has to be to their hive to deposit a berry
+export const HIVE_DEPOSIT_RADIUS = 3.5
+
+// Team hives, matching the hive pedestals on each side of the client's Arena
+export const HIVE_POSITIONS: Record<Side, Vector3Tuple> = {
+  left: [-14, 2.5, -6],
+  right: [14, 2.5, 6]
+}
+
+export const createBerries = (map: MapDefinition): Record<string, Berry> => {
+  const berries: Record<string, Berry> = {}
+  map.berrySpawns.forEach((position, i) => {
+    const id = `berry-${i}`
+    berries[id] = { id, position: [...position], carrierId: null }
+  })
+  return berries
+}
+
+// The berry a player is currently carrying, if any
+export const getCarriedBerry = (gameState: GameState, playerId: string): Berry | undefined =>
+  Object.values(gameState.berries).find(berry => berry.carrierId === playerId)
+
+export type BerryPickupResult = 'picked_up' | 'not_worker' | 'dead' | 'already_carrying' | 'no_such_berry' | 'taken' | 'too_far'
+
+// Attach a berry to a worker if they are close enough to it
+export const pickUpBerry = (gameState: GameState, player: Player, berryId: string): BerryPickupResult => {
+  if (player.role !== 'worker') return 'not_worker'
+  if (!player.isAlive) return 'dead'
+  if (getCarriedBerry(gameState, player.id)) return 'already_carrying'
+
+  const berry = gameState.berries[berryId]
+  if (!berry) return 'no_such_berry'
+  if (berry.carrierId) return 'taken'
+
+  // Validate against the worker's last known position
+  if (distance(player.position, berry.position) > BERRY_PICKUP_RADIUS) return 'too_far'
+
+  berry.carrierId = player.id
+  return 'picked_up'
+}
+
+export type BerryDepositResult = 'deposited' | 'not_carrying' | 'too_far'
+
+// Put a carried berry into the worker's own hive, counting it toward the economic win
+export const depositBerry = (gameState: GameState, player: Player): BerryDepositResult => {
+  const berry = getCarriedBerry(gameState, player.id)
+  if (!berry) return 'not_carrying'
+
+  if (distance(player.position, HIVE_POSITIONS[gameState.sides[player.team]]) > HIVE_DEPOSIT_RADIUS) return 'too_far'
+
+  // The berry is used up once it's in the hive
+  delete gameState.berries[berry.id]
+  gameState.berryCount[player.team]++
+  return 'deposited'
+}
+
+// Drop a carried berry on the floor below the carrier, e.g. when they die or leave
+export const dropBerry = (gameState: GameState, player: Player): boolean => {
+  const berry = getCarriedBerry(gameState, player.id)
+  if (!berry) return false
+
+  berry.carrierId = null
+  berry.position = [player.position[0], BERRY_REST_HEIGHT, player.position[2]]
+  return true
+}
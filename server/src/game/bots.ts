@@ -0,0 +1,255 @@
+import { FLIGHT_SETTINGS } from '../../../shared/flight'
+import { GameState, Gate, Player, PlayerInput, Team, Vector3Tuple } from '../types'
+import { distance } from './arena'
+import { BERRY_PICKUP_RADIUS, HIVE_DEPOSIT_RADIUS, HIVE_POSITIONS, getCarriedBerry } from './berries'
+import { ATTACK_REACH, HIT_RADIUS, canKill } from './combat'
+import { GATE_RADIUS } from './gates'
+import { maxHorizontalSpeed } from './movement'
+import { SNAIL_MOUNT_RADIUS, snailWorldPosition } from './snail'
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard'
+
+interface BotSkill {
+  // Fraction of the role's top speed bots fly at
+  speed: number
+  // Seconds between a bot rethinking what it's going for
+  reactionTime: number
+  // Seconds a bot waits between attacks
+  attackInterval: number
+}
+
+export const BOT_SKILLS: Record<BotDifficulty, BotSkill> = {
+  easy: { speed: 0.5, reactionTime: 1.5, attackInterval: 1.5 },
+  normal: { speed: 0.75, reactionTime: 0.75, attackInterval: 0.9 },
+  hard: { speed: 0.95, reactionTime: 0.25, attackInterval: 0.5 }
+}
+
+export interface BotSettings {
+  // Bots top each team up to this many players while a human is in the room; 0 turns bots off
+  teamSize: number
+  difficulty: BotDifficulty
+}
+
+export const DEFAULT_BOT_SETTINGS: BotSettings = {
+  teamSize: 3,
+  difficulty: 'normal'
+}
+
+export const isBotDifficulty = (value: unknown): value is BotDifficulty =>
+  typeof value === 'string' && value in BOT_SKILLS
+
+// Read bot settings from BOT_TEAM_SIZE and BOT_DIFFICULTY, falling back to the defaults
+export const botSettingsFromEnv = (env: NodeJS.ProcessEnv): BotSettings => {
+  const teamSize = Number(env.BOT_TEAM_SIZE)
+  return {
+    teamSize: env.BOT_TEAM_SIZE !== undefined && Number.isInteger(teamSize) && teamSize >= 0
+      ? teamSize
+      : DEFAULT_BOT_SETTINGS.teamSize,
+    difficulty: isBotDifficulty(env.BOT_DIFFICULTY) ? env.BOT_DIFFICULTY : DEFAULT_BOT_SETTINGS.difficulty
+  }
+}
+
+// What a bot is currently going for
+type BotGoal =
+  | { type: 'idle' }
+  | { type: 'berry', berryId: string }
+  | { type: 'hive' }
+  | { type: 'snail' }
+  | { type: 'gate', gateId: string }
+  // A worker spending its berry at one of its team's gates to become a soldier
+  | { type: 'useGate', gateId: string }
+  | { type: 'player', playerId: string }
+
+// A bot's memory between ticks
+export interface BotBrain {
+  skill: BotSkill
+  goal: BotGoal
+  // Simulation time of the next rethink and the earliest next attack
+  nextDecisionAt: number
+  nextAttackAt: number
+}
+
+export const createBotBrain = (difficulty: BotDifficulty): BotBrain => ({
+  skill: BOT_SKILLS[difficulty],
+  goal: { type: 'idle' },
+  nextDecisionAt: 0,
+  nextAttackAt: 0
+})
+
+// Queens go after enemies this close to their hive or themselves
+const QUEEN_DEFEND_RADIUS = 12
+
+// Attackers stop short of their target rather than flying through it
+const ATTACK_STANDOFF = 1.5
+
+// Yaw facing from one point toward another (players face -z at yaw 0)
+const yawToward = (from: Vector3Tuple, to: Vector3Tuple) => Math.atan2(-(to[0] - from[0]), -(to[2] - from[2]))
+
+const hiveOf = (gameState: GameState, team: Team) => HIVE_POSITIONS[gameState.sides[team]]
+
+// A gate of the bot's team that it can step into
+const isUsableGate = (gate: Gate, bot: Player) => gate.team === bot.team && (!gate.occupantId || gate.occupantId === bot.id)
+
+const closest = <T>(from: Vector3Tuple, items: T[], positionOf: (item: T) => Vector3Tuple): T | undefined => {
+  let best: T | undefined
+  let bestDistance = Infinity
+  for (const item of items) {
+    const gap = distance(from, positionOf(item))
+    if (gap < bestDistance) {
+      best = item
+      bestDistance = gap
+    }
+  }
+  return best
+}
+
+const livingEnemies = (gameState: GameState, bot: Player) =>
+  Object.values(gameState.players).filter(player =>
+    player.team !== bot.team && player.isActive && player.isAlive && canKill(bot.role, player.role))
+
+// Pick what to do next, by role
+const chooseGoal = (gameState: GameState, bot: Player): BotGoal => {
+  if (bot.role === 'worker') {
+    if (getCarriedBerry(gameState, bot.id)) {
+      // Turn the berry into a soldier while the team has none, otherwise bring it home
+      const hasSoldier = Object.values(gameState.players).some(player => player.team === bot.team && player.role === 'soldier')
+      const gates = Object.values(gameState.gates).filter(gate => isUsableGate(gate, bot))
+      const gate = hasSoldier ? undefined : closest(bot.position, gates, gate => gate.position)
+      return gate ? { type: 'useGate', gateId: gate.id } : { type: 'hive' }
+    }
+
+    // Knock an enemy off the snail
+    const rider = gameState.snail.riderId ? gameState.players[gameState.snail.riderId] : undefined
+    if (rider && rider.team !== bot.team) return { type: 'snail' }
+
+    // Otherwise gather berries, or ride a free snail if it's nearer than any berry
+    const berries = Object.values(gameState.berries).filter(berry => !berry.carrierId)
+    const berry = closest(bot.position, berries, berry => berry.position)
+    const snailGap = distance(bot.position, snailWorldPosition(gameState.snailPosition))
+    if (!rider && gameState.snail.digestTime === 0 && (!berry || snailGap < distance(bot.position, berry.position))) {
+      return { type: 'snail' }
+    }
+    return berry ? { type: 'berry', berryId: berry.id } : { type: 'idle' }
+  }
+
+  const enemies = livingEnemies(gameState, bot)
+
+  if (bot.role === 'soldier') {
+    // Hunt workers who are scoring first - carriers and snail riders - then the nearest enemy
+    const scoring = enemies.filter(enemy =>
+      enemy.role === 'worker' && (getCarriedBerry(gameState, enemy.id) || gameState.snail.riderId === enemy.id))
+    const target = closest(bot.position, scoring.length > 0 ? scoring : enemies, enemy => enemy.position)
+    return target ? { type: 'player', playerId: target.id } : { type: 'idle' }
+  }
+
+  // Queens defend their hive, then contest gates
+  const hive = hiveOf(gameState, bot.team)
+  const threats = enemies.filter(enemy =>
+    distance(enemy.position, hive) <= QUEEN_DEFEND_RADIUS || distance(enemy.position, bot.position) <= QUEEN_DEFEND_RADIUS)
+  const threat = closest(bot.position, threats, enemy => enemy.position)
+  if (threat) return { type: 'player', playerId: threat.id }
+
+  const gates = Object.values(gameState.gates).filter(gate => gate.team !== bot.team)
+  const gate = closest(bot.position, gates, gate => gate.position)
+  return gate ? { type: 'gate', gateId: gate.id } : { type: 'hive' }
+}
+
+// Where the goal is, or undefined once it no longer exists
+const goalPosition = (gameState: GameState, bot: Player, goal: BotGoal): Vector3Tuple | undefined => {
+  switch (goal.type) {
+    case 'idle':
+      return undefined
+    case 'berry': {
+      const berry = gameState.berries[goal.berryId]
+      return berry && !berry.carrierId ? berry.position : undefined
+    }
+    case 'hive':
+      return hiveOf(gameState, bot.team)
+    case 'snail':
+      return snailWorldPosition(gameState.snailPosition)
+    case 'gate': {
+      const gate = gameState.gates[goal.gateId]
+      return gate && gate.team !== bot.team ? gate.position : undefined
+    }
+    case 'useGate': {
+      const gate = gameState.gates[goal.gateId]
+      return gate && isUsableGate(gate, bot) && getCarriedBerry(gameState, bot.id) ? gate.position : undefined
+    }
+    case 'player': {
+      const target = gameState.players[goal.playerId]
+      return target && target.isActive && target.isAlive ? target.position : undefined
+    }
+  }
+}
+
+/**
+ * Decide a bot's inputs for one tick.
+ *
+ * Bots play through the same inputs as humans - moves at no more than their
+ * role's top speed, pickups, deposits, attacks - so every rule the room
+ * enforces on players applies to them too.
+ */
+export const updateBot = (gameState: GameState, bot: Player, brain: BotBrain, now: number, dt: number): PlayerInput[] => {
+  // The dead wait to respawn, and riders let the snail do the work
+  if (!bot.isAlive || gameState.snail.riderId === bot.id) return []
+
+  let target = goalPosition(gameState, bot, brain.goal)
+  if (!target || now >= brain.nextDecisionAt) {
+    brain.goal = chooseGoal(gameState, bot)
+    brain.nextDecisionAt = now + brain.skill.reactionTime
+    target = goalPosition(gameState, bot, brain.goal)
+  }
+  if (!target) return []
+
+  const inputs: PlayerInput[] = []
+  const { goal } = brain
+  const gap = distance(bot.position, target)
+
+  // Fly toward the goal, stopping short of players
+  const stopAt = goal.type === 'player' ? ATTACK_STANDOFF : 0
+  if (gap > stopAt) {
+    const horizontal = Math.hypot(target[0] - bot.position[0], target[2] - bot.position[2])
+    const horizontalStep = Math.min(horizontal, maxHorizontalSpeed(bot.role) * brain.skill.speed * dt)
+    // Bots climb and dive at a steady rate, well inside what a player's bee can do
+    const verticalStep = Math.max(-1, Math.min(1, target[1] - bot.position[1])) * FLIGHT_SETTINGS.ASCEND_SPEED * brain.skill.speed * dt
+    const scale = horizontal > 0 ? horizontalStep / horizontal : 0
+    const position: Vector3Tuple = [
+      bot.position[0] + (target[0] - bot.position[0]) * scale,
+      Math.abs(target[1] - bot.position[1]) <= Math.abs(verticalStep) ? target[1] : bot.position[1] + verticalStep,
+      bot.position[2] + (target[2] - bot.position[2]) * scale
+    ]
+    inputs.push({ type: 'move', position, rotation: [0, yawToward(bot.position, target), 0] })
+  } else if (goal.type === 'player') {
+    // Turn to face the target
+    inputs.push({ type: 'move', position: [...bot.position], rotation: [0, yawToward(bot.position, target), 0] })
+  }
+
+  // Act once close enough
+  switch (goal.type) {
+    case 'berry':
+      if (gap <= BERRY_PICKUP_RADIUS) inputs.push({ type: 'collectBerry', berryId: goal.berryId })
+      break
+    case 'hive':
+      if (getCarriedBerry(gameState, bot.id) && gap <= HIVE_DEPOSIT_RADIUS) inputs.push({ type: 'depositBerry' })
+      break
+    case 'snail':
+      if (gap <= SNAIL_MOUNT_RADIUS && gameState.snail.contesterId !== bot.id) inputs.push({ type: 'mountSnail' })
+      break
+    case 'gate':
+      if (gap <= GATE_RADIUS) inputs.push({ type: 'captureGate', gateId: goal.gateId })
+      break
+    case 'useGate':
+      if (gap <= GATE_RADIUS) inputs.push({ type: 'enterGate', gateId: goal.gateId })
+      break
+    case 'player': {
+      const victim = gameState.players[goal.playerId]
+      if (gap <= ATTACK_REACH + HIT_RADIUS[victim.role] && now >= brain.nextAttackAt) {
+        inputs.push({ type: 'attack' })
+        brain.nextAttackAt = now + brain.skill.attackInterval
+      }
+      break
+    }
+  }
+
+  return inputs
+}
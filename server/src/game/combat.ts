@@ -0,0 +1,90 @@
+import { DEFAULT_RULES } from '../../../shared/rules'
+import { GameState, Player, Role, Vector3Tuple } from '../types'
+import { distance } from './arena'
+
+// How far past the target's hitbox an attack reaches
+export const ATTACK_REACH = 2
+
+// Half-angle of the cone in front of the attacker that attacks can hit
+export const ATTACK_ARC = Math.PI / 3 // 60 degrees either side
+
+// Minimum time between two attacks from the same player
+export const ATTACK_COOLDOWN = 0.5 // seconds
+
+// Hitbox radius per role, matching the client's CHARACTER_SIZES widths
+export const HIT_RADIUS: Record<Role, number> = {
+  queen: 1.2,
+  worker: 0.8,
+  soldier: 1
+}
+
+// How long the dead wait before respawning at their base, under the standard rules
+export const PLAYER_RESPAWN_DELAY = DEFAULT_RULES.playerRespawnDelay // seconds
+export const QUEEN_RESPAWN_DELAY = DEFAULT_RULES.queenRespawnDelay // seconds
+
+// Queen kills needed for a military victory under the standard rules
+export const QUEEN_KILLS_TO_WIN = DEFAULT_RULES.queenKillsToWin
+
+// Who can kill whom: soldiers fight workers, soldiers and queens; queens fight anyone; workers can't fight
+const KILLABLE_ROLES: Record<Role, Role[]> = {
+  queen: ['queen', 'worker', 'soldier'],
+  soldier: ['queen', 'worker', 'soldier'],
+  worker: []
+}
+
+export const canAttack = (role: Role) => KILLABLE_ROLES[role].length > 0
+
+export const canKill = (attacker: Role, victim: Role) => KILLABLE_ROLES[attacker].includes(victim)
+
+// Horizontal unit vector a player is facing, from their yaw (the client flies toward -z at yaw 0)
+export const facingVector = (rotation: Vector3Tuple): Vector3Tuple => {
+  const yaw = rotation[1]
+  return [-Math.sin(yaw), 0, -Math.cos(yaw)]
+}
+
+// Whether `target` is inside the attacker's reach and in front of them
+export const isInAttackCone = (attacker: Player, target: Player): boolean => {
+  const reach = ATTACK_REACH + HIT_RADIUS[target.role]
+  const gap = distance(attacker.position, target.position)
+  if (gap > reach) return false
+
+  // Point blank hits always count, whichever way the attacker is facing
+  if (gap <= HIT_RADIUS[target.role]) return true
+
+  const facing = facingVector(attacker.rotation)
+  const dx = target.position[0] - attacker.position[0]
+  const dz = target.position[2] - attacker.position[2]
+  const horizontal = Math.hypot(dx, dz)
+  if (horizontal === 0) return true
+
+  const cosAngle = (facing[0] * dx + facing[2] * dz) / horizontal
+  return cosAngle >= Math.cos(ATTACK_ARC)
+}
+
+export type AttackResult =
+  | { type: 'hit', victim: Player }
+  | { type: 'miss', reason: 'dead' | 'cannot_attack' | 'no_target' }
+
+/**
+ * Work out who an attack lands on.
+ *
+ * The attacker's last known position and facing are checked against every
+ * living enemy they are allowed to kill; the closest one in the cone is hit.
+ */
+export const resolveAttack = (gameState: GameState, attacker: Player): AttackResult => {
+  if (!attacker.isActive || !attacker.isAlive) return { type: 'miss', reason: 'dead' }
+  if (!canAttack(attacker.role)) return { type: 'miss', reason: 'cannot_attack' }
+
+  const targets = Object.values(gameState.players)
+    .filter(p =>
+      p.id !== attacker.id &&
+      p.team !== attacker.team &&
+      p.isActive &&
+      p.isAlive &&
+      canKill(attacker.role, p.role) &&
+      isInAttackCone(attacker, p)
+    )
+    .sort((a, b) => distance(attacker.position, a.position) - distance(attacker.position, b.position))
+
+  return targets.length > 0 ? { type: 'hit', victim: targets[0] } : { type: 'miss', reason: 'no_target' }
+}
@@ -0,0 +1,104 @@
+import { Gate, GameState, Player } from '../types'
+import { distance } from './arena'
+import { getCarriedBerry } from './berries'
+import { MapDefinition } from './maps'
+
+// How close a player has to be to a gate to capture or use it
+export const GATE_RADIUS = 2.5
+
+// How long a worker has to stay in a gate to become a soldier
+export const GATE_USE_DURATION = 2 // seconds
+
+export const createGates = (map: MapDefinition): Record<string, Gate> => {
+  const gates: Record<string, Gate> = {}
+  map.gateSpawns.forEach((position, i) => {
+    const id = `gate-${i}`
+    gates[id] = { id, position: [...position], team: null, occupantId: null, useTime: 0 }
+  })
+  return gates
+}
+
+const isInGate = (player: Player, gate: Gate) => distance(player.position, gate.position) <= GATE_RADIUS
+
+export type GateCaptureResult = 'captured' | 'not_queen' | 'dead' | 'no_such_gate' | 'already_owned' | 'too_far'
+
+// A queen claims a gate for her team by touching it
+export const captureGate = (gameState: GameState, player: Player, gateId: string): GateCaptureResult => {
+  if (player.role !== 'queen') return 'not_queen'
+  if (!player.isAlive) return 'dead'
+
+  const gate = gameState.gates[gateId]
+  if (!gate) return 'no_such_gate'
+  if (gate.team === player.team) return 'already_owned'
+  if (!isInGate(player, gate)) return 'too_far'
+
+  gate.team = player.team
+
+  // Enemy workers lose their place in a gate that changes hands
+  gate.occupantId = null
+  gate.useTime = 0
+  return 'captured'
+}
+
+export type GateEnterResult = 'entered' | 'not_worker' | 'dead' | 'no_berry' | 'no_such_gate' | 'not_owned' | 'occupied' | 'too_far'
+
+// A worker carrying a berry steps into one of their team's gates to start turning into a soldier
+export const enterGate = (gameState: GameState, player: Player, gateId: string): GateEnterResult => {
+  if (player.role !== 'worker') return 'not_worker'
+  if (!player.isAlive) return 'dead'
+  if (!getCarriedBerry(gameState, player.id)) return 'no_berry'
+
+  const gate = gameState.gates[gateId]
+  if (!gate) return 'no_such_gate'
+  if (gate.team !== player.team) return 'not_owned'
+  if (gate.occupantId && gate.occupantId !== player.id) return 'occupied'
+  if (!isInGate(player, gate)) return 'too_far'
+
+  if (gate.occupantId !== player.id) {
+    gate.occupantId = player.id
+    gate.useTime = 0
+  }
+  return 'entered'
+}
+
+export type GateEvent =
+  | { type: 'progress' }
+  | { type: 'promoted', playerId: string, gateId: string, berryId: string }
+
+/**
+ * Advance every occupied gate by `dt` seconds.
+ *
+ * Workers who stay in their gate with a berry long enough spend the berry and
+ * become soldiers. Anyone who leaves, dies or loses their berry is kicked out.
+ */
+export const updateGates = (gameState: GameState, dt: number): GateEvent[] => {
+  const events: GateEvent[] = []
+
+  for (const gate of Object.values(gameState.gates)) {
+    if (!gate.occupantId) continue
+
+    const occupant = gameState.players[gate.occupantId]
+    const berry = occupant ? getCarriedBerry(gameState, occupant.id) : undefined
+    if (!occupant || !occupant.isActive || !occupant.isAlive || occupant.role !== 'worker' ||
+      occupant.team !== gate.team || !berry || !isInGate(occupant, gate)) {
+      gate.occupantId = null
+      gate.useTime = 0
+      events.push({ type: 'progress' })
+      continue
+    }
+
+    gate.useTime += dt
+    events.push({ type: 'progress' })
+
+    if (gate.useTime >= GATE_USE_DURATION) {
+      // The berry is spent on the upgrade
+      delete gameState.berries[berry.id]
+      occupant.role = 'soldier'
+      gate.occupantId = null
+      gate.useTime = 0
+      events.push({ type: 'promoted', playerId: occupant.id, gateId: gate.id, berryId: berry.id })
+    }
+  }
+
+  return events
+}
@@ -0,0 +1,134 @@
+import { WireState } from '../../../shared/stateSync'
+import { GameState, Player, Vector3Tuple } from '../types'
+import { distance } from './arena'
+
+// Players within this distance move on a client's screen every tick. It's
+// where the client's fog starts, so anyone further away is already fading out.
+export const NEAR_RADIUS = 80
+
+// Ticks between position updates of players outside a client's interest - 5 a second
+export const FAR_UPDATE_INTERVAL = 6
+
+// Grid cells are squares on the ground, this many units across
+const CELL_SIZE = 20
+
+const cellOf = (value: number) => Math.floor(value / CELL_SIZE)
+
+const sameTuple = (a: number[], b: number[]) => a.every((value, i) => value === b[i])
+
+/**
+ * Players bucketed by where they are on the ground, so finding those near a
+ * point only looks at the cells around it rather than at every player.
+ */
+export class SpatialGrid {
+  private cells = new Map<string, Player[]>()
+
+  constructor(players: Player[]) {
+    players.forEach(player => {
+      const key = `${cellOf(player.position[0])},${cellOf(player.position[2])}`
+      this.cells.set(key, [...(this.cells.get(key) ?? []), player])
+    })
+  }
+
+  // Players within `radius` of `position`
+  near(position: Vector3Tuple, radius: number): Player[] {
+    const found: Player[] = []
+    const [minX, maxX] = [cellOf(position[0] - radius), cellOf(position[0] + radius)]
+    const [minZ, maxZ] = [cellOf(position[2] - radius), cellOf(position[2] + radius)]
+    for (let x = minX; x <= maxX; x++) {
+      for (let z = minZ; z <= maxZ; z++) {
+        this.cells.get(`${x},${z}`)?.forEach(player => {
+          if (distance(player.position, position) <= radius) {
+            found.push(player)
+          }
+        })
+      }
+    }
+    return found
+  }
+}
+
+/**
+ * The players a viewer should see move every tick: themselves, everyone near
+ * them and anyone the objectives hinge on wherever they are - queens, the
+ * snail's rider and workers carrying berries.
+ */
+export const playersOfInterest = (gameState: GameState, grid: SpatialGrid, viewerId: string): Set<string> => {
+  const interesting = new Set<string>([viewerId])
+
+  const viewer = gameState.players[viewerId]
+  if (viewer) {
+    grid.near(viewer.position, NEAR_RADIUS).forEach(player => interesting.add(player.id))
+  }
+
+  Object.values(gameState.players)
+    .filter(player => player.role === 'queen')
+    .forEach(player => interesting.add(player.id))
+  if (gameState.snail.riderId) {
+    interesting.add(gameState.snail.riderId)
+  }
+  Object.values(gameState.berries).forEach(berry => {
+    if (berry.carrierId) interesting.add(berry.carrierId)
+  })
+
+  return interesting
+}
+
+/**
+ * One client's view of the state. Players of interest are always as they are
+ * now; anyone else keeps the position and rotation the client last got for
+ * them until they're due a refresh. Everything else about every player - and
+ * the rest of the state - stays current, so rosters, scores and deaths never lag.
+ */
+export class InterestView {
+  private last: WireState | null = null
+  // Tick each player's position was last sent on
+  private refreshedAt = new Map<string, number>()
+  // Players the client last got an out of date position for
+  private held = new Set<string>()
+
+  // Start over, e.g. after the client has been seeing the whole state
+  reset() {
+    this.last = null
+    this.refreshedAt.clear()
+    this.held.clear()
+  }
+
+  // Whether a player held back has since become due a refresh. Nothing else
+  // may have changed by then - they may even have stopped - so the room has
+  // to send a state for it anyway.
+  due(tick: number) {
+    return [...this.held].some(id => tick - (this.refreshedAt.get(id) ?? -Infinity) >= FAR_UPDATE_INTERVAL)
+  }
+
+  next(state: WireState, interesting: Set<string>, tick: number): WireState {
+    const players: WireState['players'] = {}
+    for (const [id, player] of Object.entries(state.players)) {
+      const sent = this.last?.players[id]
+      const due = tick - (this.refreshedAt.get(id) ?? -Infinity) >= FAR_UPDATE_INTERVAL
+      if (!sent || due || interesting.has(id)) {
+        players[id] = player
+        this.refreshedAt.set(id, tick)
+        this.held.delete(id)
+      } else {
+        players[id] = { ...player, position: sent.position, rotation: sent.rotation }
+        if (sameTuple(sent.position, player.position) && sameTuple(sent.rotation, player.rotation)) {
+          this.held.delete(id)
+        } else {
+          this.held.add(id)
+        }
+      }
+    }
+
+    // Forget players who have left
+    this.refreshedAt.forEach((_, id) => {
+      if (!(id in state.players)) this.refreshedAt.delete(id)
+    })
+    this.held.forEach(id => {
+      if (!(id in state.players)) this.held.delete(id)
+    })
+
+    this.last = { ...state, players }
+    return this.last
+  }
+}
@@ -0,0 +1,76 @@
+import { DEFAULT_RULES } from '../../../shared/rules'
+import { GameState, Player } from '../types'
+
+// Each team needs at least this many connected players before a match can start
+export const MIN_PLAYERS_PER_TEAM = 1
+
+// Seconds between everyone readying up and the match starting, under the standard rules
+export const START_COUNTDOWN = DEFAULT_RULES.startCountdown
+
+export type LobbyEvent =
+  | { type: 'countdownStarted' }
+  | { type: 'countdownCancelled' }
+  | { type: 'started' }
+
+export type ReadyResult = 'updated' | 'not_in_lobby'
+
+const connectedPlayers = (gameState: GameState): Player[] =>
+  Object.values(gameState.players).filter(player => player.isActive)
+
+// Both teams have enough players with a queen, and every connected player is ready
+export const canStartMatch = (gameState: GameState) => {
+  const players = connectedPlayers(gameState)
+
+  const teamReady = (team: Player['team']) => {
+    const members = players.filter(player => player.team === team)
+    return members.length >= MIN_PLAYERS_PER_TEAM && members.some(player => player.role === 'queen')
+  }
+
+  return teamReady('blue') && teamReady('gold') && players.every(player => player.isReady)
+}
+
+// Players can only change their ready state before the match starts
+export const setReady = (gameState: GameState, player: Player, ready: boolean): ReadyResult => {
+  if (gameState.status !== 'waiting' && gameState.status !== 'starting') return 'not_in_lobby'
+
+  player.isReady = ready
+  return 'updated'
+}
+
+/**
+ * Advance the lobby by `dt` seconds.
+ *
+ * Starts the countdown once the match can start, cancels it if that stops
+ * being true (someone unreadies, leaves or a new player joins) and switches to
+ * playing when it runs out.
+ */
+export const updateLobby = (gameState: GameState, dt: number): LobbyEvent[] => {
+  const events: LobbyEvent[] = []
+  const ready = canStartMatch(gameState)
+
+  if (gameState.status === 'waiting') {
+    if (ready) {
+      gameState.status = 'starting'
+      gameState.countdown = gameState.rules.startCountdown
+      events.push({ type: 'countdownStarted' })
+    }
+    return events
+  }
+
+  if (gameState.status !== 'starting') return events
+
+  if (!ready) {
+    gameState.status = 'waiting'
+    gameState.countdown = 0
+    events.push({ type: 'countdownCancelled' })
+    return events
+  }
+
+  gameState.countdown = Math.max(0, gameState.countdown - dt)
+  if (gameState.countdown === 0) {
+    gameState.status = 'playing'
+    events.push({ type: 'started' })
+  }
+
+  return events
+}
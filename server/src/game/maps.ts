@@ -0,0 +1,75 @@
+import { Vector3Tuple } from '../types'
+
+// Height at which berries rest on the floor
+export const BERRY_REST_HEIGHT = 0.6
+
+/**
+ * Where a map places its berries and warrior gates.
+ *
+ * Every map uses the same arena geometry and is point-symmetric around the
+ * centre, so neither side has an advantage when teams swap between games.
+ */
+export interface MapDefinition {
+  id: string
+  name: string
+  berrySpawns: Vector3Tuple[]
+  gateSpawns: Vector3Tuple[]
+}
+
+// A row of berries resting at `y`, `count` of them spaced 2.5 apart starting at x
+const berryRow = (count: number, x: number, y: number, z: number): Vector3Tuple[] =>
+  Array.from({ length: count }, (_, i): Vector3Tuple => [x + i * 2.5, y, z])
+
+// Warrior gates sit on top of the three raised platforms in the client's Arena
+const PLATFORM_GATES: Vector3Tuple[] = [
+  [-8, 10, -6], // Left platform
+  [0, 7, 0], // Central platform
+  [8, 10, 6] // Right platform
+]
+
+export const MAPS: Record<string, MapDefinition> = {
+  // A contested row in the middle and a patch on each side of the field
+  classic: {
+    id: 'classic',
+    name: 'Classic',
+    berrySpawns: [
+      ...berryRow(5, -5, BERRY_REST_HEIGHT, -5),
+      ...berryRow(4, -28, BERRY_REST_HEIGHT, -12),
+      ...berryRow(4, -28, BERRY_REST_HEIGHT, -9.5),
+      ...berryRow(4, 20.5, BERRY_REST_HEIGHT, 9.5),
+      ...berryRow(4, 20.5, BERRY_REST_HEIGHT, 12)
+    ],
+    gateSpawns: PLATFORM_GATES
+  },
+  // Two long rows across the field, one behind each hive
+  orchard: {
+    id: 'orchard',
+    name: 'Orchard',
+    berrySpawns: [
+      ...berryRow(11, -12.5, BERRY_REST_HEIGHT, -12),
+      ...berryRow(11, -12.5, BERRY_REST_HEIGHT, 12)
+    ],
+    gateSpawns: PLATFORM_GATES
+  },
+  // Berries up on the platforms, gates down on the floor
+  highlands: {
+    id: 'highlands',
+    name: 'Highlands',
+    berrySpawns: [
+      ...berryRow(5, -5, 6.1, -2), // Central platform
+      ...berryRow(5, -5, 6.1, 2),
+      ...berryRow(3, -10.5, 9.1, -6), // Left platform
+      ...berryRow(3, 5.5, 9.1, 6), // Right platform
+      ...berryRow(2, -25, BERRY_REST_HEIGHT, -15),
+      ...berryRow(2, 22.5, BERRY_REST_HEIGHT, 15)
+    ],
+    gateSpawns: [
+      [-10, 1.5, 10],
+      [0, 7, 0],
+      [10, 1.5, -10]
+    ]
+  }
+}
+
+// Maps played in order through a series
+export const MAP_ROTATION = ['classic', 'orchard', 'highlands']
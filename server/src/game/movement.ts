@@ -0,0 +1,88 @@
+import { ARENA_BOUNDS, FLIGHT_SETTINGS, ROLE_MAX_VELOCITY } from '../../../shared/flight'
+import { Player, Role, Vector3Tuple } from '../types'
+
+// Headroom for frame timing: by the server's clock, a client flying flat out
+// can look a little faster than its top speed
+const SPEED_TOLERANCE = 1.1
+const DISTANCE_SLACK = 0.5
+
+// Updates may bunch up or arrive late, so players can save up this much flight
+// time - but no more, so holding updates back doesn't buy a long jump
+export const MAX_MOVE_WINDOW = 0.3 // seconds
+
+// After a respawn or reconnect the client needs a moment to apply the new position
+export const MOVE_GRACE_PERIOD = 1 // seconds
+
+// Players with this many violations within the window are flagged as likely cheaters
+export const VIOLATION_LIMIT = 5
+export const VIOLATION_WINDOW = 10 // seconds
+
+// The client caps each role's horizontal speed, and every bee's vertical speed
+export const maxHorizontalSpeed = (role: Role) => ROLE_MAX_VELOCITY[role]
+export const maxVerticalSpeed = () => FLIGHT_SETTINGS.MAX_VERTICAL_VELOCITY
+
+/**
+ * How much further a player may move right now. It fills up at the player's
+ * top speeds as time passes, up to MAX_MOVE_WINDOW's worth, and every accepted
+ * move spends the distance it covered.
+ */
+export interface MoveAllowance {
+  horizontal: number
+  vertical: number
+  // Time it was last topped up, in seconds
+  updatedAt: number
+}
+
+// Starts out full
+export const createMoveAllowance = (now: number): MoveAllowance =>
+  ({ horizontal: Infinity, vertical: Infinity, updatedAt: now })
+
+const topUp = (current: number, speed: number, elapsed: number) =>
+  Math.min(speed * SPEED_TOLERANCE * MAX_MOVE_WINDOW + DISTANCE_SLACK, current + speed * SPEED_TOLERANCE * elapsed)
+
+const isFiniteVector = (vector: Vector3Tuple) =>
+  Array.isArray(vector) && vector.length === 3 && vector.every(Number.isFinite)
+
+export const isInArena = ([x, y, z]: Vector3Tuple) =>
+  x >= ARENA_BOUNDS.minX && x <= ARENA_BOUNDS.maxX &&
+  y >= ARENA_BOUNDS.minY && y <= ARENA_BOUNDS.maxY &&
+  z >= ARENA_BOUNDS.minZ && z <= ARENA_BOUNDS.maxZ
+
+export type MoveCheck =
+  | { ok: true }
+  | { ok: false, reason: 'not_finite' | 'out_of_bounds' | 'too_fast' }
+
+/**
+ * Check a reported move against the player's last accepted position and what
+ * they have left of their allowance at `now`, spending it if the move is accepted.
+ */
+export const validateMove = (
+  player: Player,
+  position: Vector3Tuple,
+  rotation: Vector3Tuple,
+  allowance: MoveAllowance,
+  now: number
+): MoveCheck => {
+  if (!isFiniteVector(position) || !isFiniteVector(rotation)) {
+    return { ok: false, reason: 'not_finite' }
+  }
+
+  if (!isInArena(position)) {
+    return { ok: false, reason: 'out_of_bounds' }
+  }
+
+  const elapsed = Math.max(0, now - allowance.updatedAt)
+  allowance.horizontal = topUp(allowance.horizontal, maxHorizontalSpeed(player.role), elapsed)
+  allowance.vertical = topUp(allowance.vertical, maxVerticalSpeed(), elapsed)
+  allowance.updatedAt = now
+
+  const horizontal = Math.hypot(position[0] - player.position[0], position[2] - player.position[2])
+  const vertical = Math.abs(position[1] - player.position[1])
+  if (horizontal > allowance.horizontal || vertical > allowance.vertical) {
+    return { ok: false, reason: 'too_fast' }
+  }
+
+  allowance.horizontal -= horizontal
+  allowance.vertical -= vertical
+  return { ok: true }
+}
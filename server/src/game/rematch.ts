@@ -0,0 +1,22 @@
+import { GameState, Player } from '../types'
+
+export type RematchVoteResult = 'voted' | 'not_ended' | 'series_in_progress'
+
+// Voting only happens between the end of a series and the restart
+export const voteRematch = (gameState: GameState, player: Player, accept: boolean): RematchVoteResult => {
+  if (gameState.status !== 'ended') return 'not_ended'
+  if (!gameState.series.winner) return 'series_in_progress'
+
+  gameState.rematchVotes = gameState.rematchVotes.filter(id => id !== player.id)
+  if (accept) {
+    gameState.rematchVotes.push(player.id)
+  }
+  return 'voted'
+}
+
+// More than half of the connected human players want a rematch
+export const hasRematchMajority = (gameState: GameState) => {
+  const connected = Object.values(gameState.players).filter(player => player.isActive && !player.isBot)
+  const accepted = connected.filter(player => gameState.rematchVotes.includes(player.id))
+  return connected.length > 0 && accepted.length * 2 > connected.length
+}
@@ -0,0 +1,94 @@
+import { readFileSync } from 'fs'
+import { DEFAULT_RULES, RULE_PRESETS } from '../../../shared/rules'
+import { MatchRules, RULE_PRESET_NAMES, RulePreset } from '../types'
+
+export { DEFAULT_RULES, RULE_PRESETS }
+
+// Every rule but the preset's name is a number
+type NumericRule = Exclude<keyof MatchRules, 'preset'>
+
+// The range each rule may be set to. Counts are whole numbers, times may be fractional.
+const RULE_LIMITS: Record<NumericRule, { min: number, max: number, integer: boolean }> = {
+  berriesToWin: { min: 1, max: 50, integer: true },
+  queenKillsToWin: { min: 1, max: 10, integer: true },
+  seriesBestOf: { min: 1, max: 9, integer: true },
+  snailSpeed: { min: 0.1, max: 20, integer: false },
+  playerRespawnDelay: { min: 0, max: 30, integer: false },
+  queenRespawnDelay: { min: 0, max: 30, integer: false },
+  startCountdown: { min: 0, max: 60, integer: false },
+  nextGameDelay: { min: 0, max: 300, integer: false },
+  disconnectGrace: { min: 0, max: 600, integer: false },
+  endedResetDelay: { min: 10, max: 24 * 60 * 60, integer: false }
+}
+
+const isRuleName = (key: string): key is NumericRule => key in RULE_LIMITS
+
+export const isRulePreset = (value: unknown): value is RulePreset =>
+  RULE_PRESET_NAMES.includes(value as RulePreset)
+
+export type RuleChangesResult =
+  | { ok: true, value: Partial<MatchRules> }
+  | { ok: false, message: string }
+
+// Check a set of rule changes, e.g. from an admin request. Every rule named must be in range.
+export const parseRuleChanges = (data: unknown): RuleChangesResult => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { ok: false, message: 'expected an object of rule changes' }
+  }
+
+  if (Object.keys(data).length === 0) {
+    return { ok: false, message: 'expected at least one rule to change' }
+  }
+
+  const changes: Partial<MatchRules> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (!isRuleName(key)) {
+      return { ok: false, message: `unknown rule ${key}` }
+    }
+
+    const { min, max, integer } = RULE_LIMITS[key]
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      return { ok: false, message: `${key} must be a ${integer ? 'whole number' : 'number'} from ${min} to ${max}` }
+    }
+    if (key === 'seriesBestOf' && value % 2 === 0) {
+      return { ok: false, message: 'seriesBestOf must be odd' }
+    }
+    changes[key] = value
+  }
+  return { ok: true, value: changes }
+}
+
+/**
+ * The rules for rooms created without a preset of their own.
+ *
+ * RULES_FILE names a JSON file like `{ "preset": "tournament", "rules": { "berriesToWin": 10 } }`,
+ * where both fields are optional; otherwise RULES_PRESET names a preset. A
+ * file that can't be read or has bad rules stops the server, rather than
+ * quietly running matches with rules nobody asked for.
+ */
+export const rulesFromEnv = (env: NodeJS.ProcessEnv): MatchRules => {
+  if (!env.RULES_FILE) {
+    if (env.RULES_PRESET === undefined) return DEFAULT_RULES
+    if (!isRulePreset(env.RULES_PRESET)) {
+      throw new Error(`RULES_PRESET must be one of ${RULE_PRESET_NAMES.join(', ')}`)
+    }
+    return RULE_PRESETS[env.RULES_PRESET]
+  }
+
+  const config: unknown = JSON.parse(readFileSync(env.RULES_FILE, 'utf8'))
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`${env.RULES_FILE} must hold a JSON object`)
+  }
+
+  const { preset = 'standard', rules } = config as { preset?: unknown, rules?: unknown }
+  if (!isRulePreset(preset)) {
+    throw new Error(`${env.RULES_FILE}: preset must be one of ${RULE_PRESET_NAMES.join(', ')}`)
+  }
+  if (rules === undefined) return RULE_PRESETS[preset]
+
+  const changes = parseRuleChanges(rules)
+  if (!changes.ok) {
+    throw new Error(`${env.RULES_FILE}: ${changes.message}`)
+  }
+  return { ...RULE_PRESETS[preset], ...changes.value, preset: 'custom' }
+}
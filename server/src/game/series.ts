@@ -0,0 +1,63 @@
+import { DEFAULT_RULES } from '../../../shared/rules'
+import { SeriesState, Side, Team } from '../types'
+import { DEFAULT_SIDES } from './arena'
+import { MAPS, MAP_ROTATION, MapDefinition } from './maps'
+
+// Games in a series under the standard rules - the first team to win a majority takes it
+export const SERIES_BEST_OF = DEFAULT_RULES.seriesBestOf
+
+// Standard pause between the games of a series, while players look at the results
+export const NEXT_GAME_DELAY = DEFAULT_RULES.nextGameDelay // seconds
+
+export const createSeries = (bestOf = SERIES_BEST_OF): SeriesState => ({
+  bestOf,
+  gameNumber: 1,
+  wins: { blue: 0, gold: 0 },
+  winner: null,
+  nextGameIn: 0
+})
+
+export const winsNeeded = (series: SeriesState) => Math.floor(series.bestOf / 2) + 1
+
+// Maps rotate game by game
+export const mapForGame = (gameNumber: number): MapDefinition =>
+  MAPS[MAP_ROTATION[(gameNumber - 1) % MAP_ROTATION.length]]
+
+// Teams swap sides every game
+export const sidesForGame = (gameNumber: number): Record<Team, Side> =>
+  gameNumber % 2 === 1
+    ? { ...DEFAULT_SIDES }
+    : { blue: DEFAULT_SIDES.gold, gold: DEFAULT_SIDES.blue }
+
+/**
+ * Count a game win toward the series.
+ *
+ * Returns true if that win decided the series; otherwise the next game is
+ * scheduled after a short pause.
+ */
+export const recordGameWin = (series: SeriesState, winner: Team, nextGameDelay = NEXT_GAME_DELAY): boolean => {
+  series.wins[winner]++
+  if (series.wins[winner] >= winsNeeded(series)) {
+    series.winner = winner
+    return true
+  }
+
+  series.nextGameIn = nextGameDelay
+  return false
+}
+
+// Count down the pause between games, returning true once the next game should start
+export const updateIntermission = (series: SeriesState, dt: number): boolean => {
+  if (series.winner || series.nextGameIn === 0) return false
+
+  series.nextGameIn = Math.max(0, series.nextGameIn - dt)
+  return series.nextGameIn === 0
+}
+
+// The series state for the game after this one
+export const nextGame = (series: SeriesState): SeriesState => ({
+  ...series,
+  wins: { ...series.wins },
+  gameNumber: series.gameNumber + 1,
+  nextGameIn: 0
+})
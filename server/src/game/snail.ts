@@ -0,0 +1,190 @@
+import { DEFAULT_RULES } from '../../../shared/rules'
+import { GameState, Player, SnailState, Team, Vector3Tuple } from '../types'
+import { SNAIL_TRACK, distance, teamOnSide } from './arena'
+import { getCarriedBerry } from './berries'
+
+// How fast a ridden snail crawls under the standard rules, in track percent per second
+export const SNAIL_SPEED = DEFAULT_RULES.snailSpeed
+
+// How close a worker has to be to the snail to mount or contest it
+export const SNAIL_MOUNT_RADIUS = 3
+
+// How long a challenger has to stay on a ridden snail to knock the rider off
+export const SNAIL_CONTEST_DURATION = 2 // seconds
+
+// Enemy workers this close to the snail's mouth get eaten
+export const SNAIL_EAT_RADIUS = 1.5
+
+// How long the snail stops to digest after eating a worker
+export const SNAIL_DIGEST_DURATION = 3 // seconds
+
+// Height of a rider's seat above the track
+const RIDER_HEIGHT = 1.2
+
+// The team on the left pushes the snail toward 100 (the right end), the other toward 0
+const directionFor = (gameState: GameState, team: Team) => (gameState.sides[team] === 'left' ? 1 : -1)
+
+export const createSnail = (): SnailState => ({
+  riderId: null,
+  contesterId: null,
+  contestTime: 0,
+  digestTime: 0
+})
+
+// World position of the snail for a given track position (0-100)
+export const snailWorldPosition = (trackPosition: number): Vector3Tuple => [
+  SNAIL_TRACK.startX + (SNAIL_TRACK.endX - SNAIL_TRACK.startX) * (trackPosition / 100),
+  SNAIL_TRACK.y,
+  SNAIL_TRACK.z
+]
+
+const riderSeat = (gameState: GameState): Vector3Tuple => {
+  const [x, y, z] = snailWorldPosition(gameState.snailPosition)
+  return [x, y + RIDER_HEIGHT, z]
+}
+
+const canRide = (player: Player | undefined): player is Player =>
+  !!player && player.isActive && player.isAlive && player.role === 'worker'
+
+export type SnailMountResult = 'mounted' | 'contesting' | 'not_worker' | 'carrying_berry' | 'too_far' | 'occupied' | 'digesting'
+
+// A worker climbs onto the snail, or starts contesting it if an enemy is riding
+export const mountSnail = (gameState: GameState, player: Player): SnailMountResult => {
+  const { snail } = gameState
+
+  if (!canRide(player)) return 'not_worker'
+  if (getCarriedBerry(gameState, player.id)) return 'carrying_berry'
+  if (snail.riderId === player.id || snail.contesterId === player.id) return 'occupied'
+  if (snail.digestTime > 0) return 'digesting'
+  if (distance(player.position, snailWorldPosition(gameState.snailPosition)) > SNAIL_MOUNT_RADIUS) return 'too_far'
+
+  const rider = snail.riderId ? gameState.players[snail.riderId] : undefined
+  if (!rider) {
+    snail.riderId = player.id
+    player.position = riderSeat(gameState)
+    return 'mounted'
+  }
+
+  // Teammates can't take the snail from each other, and only one challenger at a time
+  if (rider.team === player.team || snail.contesterId) return 'occupied'
+
+  snail.contesterId = player.id
+  snail.contestTime = 0
+  return 'contesting'
+}
+
+// Get off the snail, or give up a contest
+export const dismountSnail = (gameState: GameState, playerId: string): boolean => {
+  const { snail } = gameState
+
+  if (snail.riderId === playerId) {
+    snail.riderId = null
+    snail.contesterId = null
+    snail.contestTime = 0
+    return true
+  }
+
+  if (snail.contesterId === playerId) {
+    snail.contesterId = null
+    snail.contestTime = 0
+    return true
+  }
+
+  return false
+}
+
+export type SnailEvent =
+  // `distance` is how far the rider pushed the snail, in track percent
+  | { type: 'moved', riderId: string, distance: number }
+  | { type: 'riderChanged', riderId: string | null }
+  | { type: 'ate', riderId: string, victimId: string }
+  | { type: 'goal', winner: Team }
+
+/**
+ * Advance the snail by `dt` seconds.
+ *
+ * Returns what happened so the caller can broadcast it, kill eaten workers and
+ * check for a snail victory.
+ */
+export const updateSnail = (gameState: GameState, dt: number): SnailEvent[] => {
+  const { snail, players } = gameState
+  const events: SnailEvent[] = []
+
+  // Riders and challengers who left, disconnected or changed role lose their place
+  if (snail.contesterId && !canRide(players[snail.contesterId])) {
+    snail.contesterId = null
+    snail.contestTime = 0
+  }
+  if (snail.riderId && !canRide(players[snail.riderId])) {
+    snail.riderId = null
+    snail.contesterId = null
+    snail.contestTime = 0
+    events.push({ type: 'riderChanged', riderId: null })
+  }
+
+  const rider = snail.riderId ? players[snail.riderId] : undefined
+  if (!rider) return events
+
+  // Keep the rider in the saddle
+  rider.position = riderSeat(gameState)
+
+  // The snail doesn't move while digesting
+  if (snail.digestTime > 0) {
+    snail.digestTime = Math.max(0, snail.digestTime - dt)
+    return events
+  }
+
+  // A contested snail stalls until the challenger gives up or knocks the rider off
+  if (snail.contesterId) {
+    const contester = players[snail.contesterId]
+    const snailPosition = snailWorldPosition(gameState.snailPosition)
+
+    if (distance(contester.position, snailPosition) > SNAIL_MOUNT_RADIUS) {
+      snail.contesterId = null
+      snail.contestTime = 0
+    } else {
+      snail.contestTime += dt
+      if (snail.contestTime >= SNAIL_CONTEST_DURATION) {
+        snail.riderId = contester.id
+        snail.contesterId = null
+        snail.contestTime = 0
+        contester.position = riderSeat(gameState)
+        events.push({ type: 'riderChanged', riderId: contester.id })
+      }
+      return events
+    }
+  }
+
+  // Enemy workers standing in front of the snail get eaten
+  const direction = directionFor(gameState, rider.team)
+  const [x, y, z] = snailWorldPosition(gameState.snailPosition)
+  const mouth: Vector3Tuple = [x + direction * 1.5, y, z]
+  const victim = Object.values(players).find(p =>
+    p.isActive &&
+    p.isAlive &&
+    p.role === 'worker' &&
+    p.team !== rider.team &&
+    distance(p.position, mouth) <= SNAIL_EAT_RADIUS
+  )
+
+  if (victim) {
+    snail.digestTime = SNAIL_DIGEST_DURATION
+    events.push({ type: 'ate', riderId: rider.id, victimId: victim.id })
+    return events
+  }
+
+  // Crawl toward the rider's goal
+  const previousPosition = gameState.snailPosition
+  gameState.snailPosition = Math.min(100, Math.max(0, gameState.snailPosition + direction * gameState.rules.snailSpeed * dt))
+  rider.position = riderSeat(gameState)
+  events.push({ type: 'moved', riderId: rider.id, distance: Math.abs(gameState.snailPosition - previousPosition) })
+
+  // Check for snail victory
+  if (gameState.snailPosition >= 100) {
+    events.push({ type: 'goal', winner: teamOnSide(gameState, 'left') })
+  } else if (gameState.snailPosition <= 0) {
+    events.push({ type: 'goal', winner: teamOnSide(gameState, 'right') })
+  }
+
+  return events
+}
@@ -0,0 +1,60 @@
+import { GameState, MatchHighlight, MatchResult, PlayerMatchStats, Team, WinReason } from '../types'
+
+export const createPlayerStats = (): PlayerMatchStats => ({
+  kills: 0,
+  queenKills: 0,
+  deaths: 0,
+  berriesDeposited: 0,
+  snailDistance: 0
+})
+
+// Highlights shown on the game-over screen, each going to the player with the highest stat
+const HIGHLIGHTS: { title: string, stat: keyof PlayerMatchStats }[] = [
+  { title: 'Top fighter', stat: 'kills' },
+  { title: 'Queen slayer', stat: 'queenKills' },
+  { title: 'Berry runner', stat: 'berriesDeposited' },
+  { title: 'Snail jockey', stat: 'snailDistance' }
+]
+
+/**
+ * Put together the final standings of a match.
+ *
+ * Only players still in the room are listed. A highlight is skipped when
+ * nobody scored in its stat.
+ */
+export const buildMatchResult = (
+  gameState: GameState,
+  stats: Map<string, PlayerMatchStats>,
+  winner: Team,
+  reason: WinReason
+): MatchResult => {
+  const players = Object.values(gameState.players).map(player => ({
+    playerId: player.id,
+    name: player.name,
+    team: player.team,
+    role: player.role,
+    ...(stats.get(player.id) ?? createPlayerStats())
+  }))
+
+  const highlights: MatchHighlight[] = []
+  for (const { title, stat } of HIGHLIGHTS) {
+    const best = players.reduce<typeof players[number] | null>(
+      (leader, player) => (player[stat] > (leader?.[stat] ?? 0) ? player : leader),
+      null
+    )
+    if (best) {
+      highlights.push({ title, playerId: best.playerId, value: Math.round(best[stat]) })
+    }
+  }
+
+  return {
+    winner,
+    reason,
+    matchTime: gameState.matchTime,
+    berryCount: { ...gameState.berryCount },
+    queenKills: { blue: gameState.blueScore, gold: gameState.goldScore },
+    snailPosition: gameState.snailPosition,
+    players,
+    highlights
+  }
+}
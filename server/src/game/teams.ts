@@ -0,0 +1,79 @@
+import { CLAIMABLE_ROLES, GameState, Player, Role, Team } from '../types'
+
+export type SlotClaimResult = 'claimed' | 'not_in_lobby' | 'not_claimable' | 'unchanged' | 'queen_taken'
+
+export type SwapRequestResult = 'requested' | 'not_in_lobby' | 'no_such_player' | 'same_slot' | 'bot'
+
+export type SwapAnswerResult = 'swapped' | 'declined' | 'not_in_lobby' | 'no_such_request'
+
+// Teams and roles can only change before the match starts
+const inLobby = (gameState: GameState) => gameState.status === 'waiting' || gameState.status === 'starting'
+
+// The human playing queen for a team, if any - a bot queen steps aside for a human who claims the crown
+export const humanQueenOf = (gameState: GameState, team: Team): Player | undefined =>
+  Object.values(gameState.players).find(player => player.team === team && player.role === 'queen' && !player.isBot)
+
+// Anyone changing slots has to ready up again, so nobody starts a match in a slot they didn't expect
+const moveToSlot = (player: Player, team: Team, role: Role) => {
+  player.team = team
+  player.role = role
+  player.isReady = false
+}
+
+// Requests to or from a player, e.g. once they've left or changed slots
+export const dropSwapRequests = (gameState: GameState, playerId: string) => {
+  gameState.swapRequests = gameState.swapRequests.filter(request =>
+    request.fromId !== playerId && request.toId !== playerId)
+}
+
+// A player picks their own team and role. Each team has a single queen.
+export const claimSlot = (gameState: GameState, player: Player, team: Team, role: Role): SlotClaimResult => {
+  if (!inLobby(gameState)) return 'not_in_lobby'
+  if (!CLAIMABLE_ROLES.includes(role)) return 'not_claimable'
+  if (player.team === team && player.role === role) return 'unchanged'
+
+  const queen = humanQueenOf(gameState, team)
+  if (role === 'queen' && queen && queen.id !== player.id) return 'queen_taken'
+
+  moveToSlot(player, team, role)
+  dropSwapRequests(gameState, player.id)
+  return 'claimed'
+}
+
+// Ask another player to trade slots. A newer request from the same player replaces the old one.
+export const requestSwap = (gameState: GameState, player: Player, targetId: string): SwapRequestResult => {
+  if (!inLobby(gameState)) return 'not_in_lobby'
+
+  const target = gameState.players[targetId]
+  if (!target || target.id === player.id) return 'no_such_player'
+  // Bots don't answer - claim their slot instead
+  if (target.isBot) return 'bot'
+  if (target.team === player.team && target.role === player.role) return 'same_slot'
+
+  gameState.swapRequests = [
+    ...gameState.swapRequests.filter(request => request.fromId !== player.id),
+    { fromId: player.id, toId: target.id }
+  ]
+  return 'requested'
+}
+
+// Accept or decline a swap someone asked `player` for. Trading slots keeps one queen per team.
+export const answerSwap = (gameState: GameState, player: Player, fromId: string, accept: boolean): SwapAnswerResult => {
+  if (!inLobby(gameState)) return 'not_in_lobby'
+
+  const request = gameState.swapRequests.find(request => request.fromId === fromId && request.toId === player.id)
+  const requester = gameState.players[fromId]
+  if (!request || !requester) return 'no_such_request'
+
+  if (!accept) {
+    gameState.swapRequests = gameState.swapRequests.filter(other => other !== request)
+    return 'declined'
+  }
+
+  const { team, role } = requester
+  moveToSlot(requester, player.team, player.role)
+  moveToSlot(player, team, role)
+  dropSwapRequests(gameState, requester.id)
+  dropSwapRequests(gameState, player.id)
+  return 'swapped'
+}
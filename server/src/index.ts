@@ -1,70 +1,18 @@
 import express from 'express'
 import { createServer } from 'http'
-import { Server, Socket } from 'socket.io'
+import { Server } from 'socket.io'
 import { v4 as uuidv4 } from 'uuid'
 import cors from 'cors'
-
-interface Player {
-  id: string
-  position: [number, number, number]
-  rotation: [number, number, number]
-  team: 'blue' | 'gold'
-  role: 'queen' | 'worker' | 'soldier'
-  isActive: boolean
-}
-
-interface GameState {
-  status: 'waiting' | 'starting' | 'playing' | 'ended'
-  players: Record<string, Player>
-  blueScore: number
-  goldScore: number
-  blueQueenAlive: boolean
-  goldQueenAlive: boolean
-  snailPosition: number
-  berryCount: {
-    blue: number
-    gold: number
-  }
-}
-
-interface ServerToClientEvents {
-  gameState: (state: GameState) => void
-  playerAssigned: (data: { playerId: string, team: 'blue' | 'gold', role: 'queen' | 'worker' | 'soldier' }) => void
-  gameOver: (data: { winner: 'blue' | 'gold', reason: 'economic' | 'military' | 'snail' }) => void
-  playerPositionUpdate: (data: { id: string, position: [number, number, number], rotation: [number, number, number] }) => void
-}
-
-interface ClientToServerEvents {
-  joinGame: () => void
-  leaveGame: () => void
-  playerUpdate: (data: { position: [number, number, number], rotation: [number, number, number] }) => void
-  collectBerry: (data: any) => void
-  moveSnail: (data: any) => void
-  attackQueen: (data: any) => void
-  reconnectPlayer: (data: { playerId: string }) => void
-}
-
-interface SocketData {
-  playerId?: string
-}
-
-// Initialize game state
-const initialGameState: GameState = {
-  status: 'waiting',
-  players: {},
-  blueScore: 0,
-  goldScore: 0,
-  blueQueenAlive: true,
-  goldQueenAlive: true,
-  snailPosition: 50, // percentage from 0 (blue) to 100 (gold)
-  berryCount: {
-    blue: 0,
-    gold: 0
-  }
-}
-
-// Create a copy to modify
-let gameState: GameState = JSON.parse(JSON.stringify(initialGameState))
+import { createAdminRouter } from './admin/routes'
+import { inboundEvents } from './metrics/metrics'
+import { createHealthRouter } from './metrics/routes'
+import { botSettingsFromEnv } from './game/bots'
+import { rulesFromEnv } from './game/rules'
+import { createReplayRouter } from './replay/routes'
+import { RoomManager } from './roomManager'
+import { ReconnectLimiter } from './sessions'
+import { ClientEvent, ClientPayload, GameServer, GameSocket, PROTOCOL_MISMATCH, PROTOCOL_VERSION, PlayerInput, ProtocolMismatchData } from './types'
+import { validatePayload } from './validation'
 
 // Set up the server
 const app = express()
@@ -73,51 +21,156 @@ const httpServer = createServer(app)
 // Configure CORS
 app.use(cors())
 
+// Recorded games
+app.use('/replays', createReplayRouter())
+
 // Set up socket.io
-const io = new Server<ClientToServerEvents, ServerToClientEvents, {}, SocketData>(httpServer, {
+const io: GameServer = new Server(httpServer, {
   cors: {
     origin: '*',
     methods: ['GET', 'POST']
   }
 })
 
-// Team and role assignment logic
-const assignTeamAndRole = (players: Record<string, Player>): { team: 'blue' | 'gold', role: 'queen' | 'worker' | 'soldier' } => {
-  const playerCount = Object.keys(players).length
-  const blueCount = Object.values(players).filter(p => p.team === 'blue').length
-  const goldCount = Object.values(players).filter(p => p.team === 'gold').length
+// Every match lives in its own room, with bots filling empty team slots
+const botSettings = botSettingsFromEnv(process.env)
+console.log(`Bots fill teams up to ${botSettings.teamSize} players (${botSettings.difficulty})`)
+const defaultRules = rulesFromEnv(process.env)
+console.log(`Rooms play by ${defaultRules.preset} rules unless created with a preset`)
+const rooms = new RoomManager(io, botSettings, defaultRules)
 
-  // Assign to team with fewer players
-  const team = blueCount <= goldCount ? 'blue' : 'gold'
-  
-  // Role assignment - first player on each team is queen
-  const teamPlayers = Object.values(players).filter(p => p.team === team)
-  if (teamPlayers.length === 0) {
-    return { team, role: 'queen' }
-  }
-  
-  // Check if this team already has a queen
-  const hasQueen = teamPlayers.some(p => p.role === 'queen')
-  if (!hasQueen) {
-    return { team, role: 'queen' }
-  }
-  
-  // Alternate between worker and soldier
-  const workerCount = teamPlayers.filter(p => p.role === 'worker').length
-  const soldierCount = teamPlayers.filter(p => p.role === 'soldier').length
-  
-  return { team, role: workerCount <= soldierCount ? 'worker' : 'soldier' }
+// Health checks and Prometheus metrics
+app.use(createHealthRouter({ io, rooms, isReady: () => httpServer.listening }))
+
+// Live match control for operators, only when an admin token is configured
+const adminToken = process.env.ADMIN_TOKEN
+if (adminToken) {
+  app.use('/admin', createAdminRouter(rooms, adminToken))
+} else {
+  console.log('ADMIN_TOKEN is not set, so the admin API is off')
 }
 
+// Failed reconnection attempts, by client address
+const reconnectLimiter = new ReconnectLimiter()
+
+// Refuse clients built against a different protocol version before they can
+// send or receive anything they might misread
+io.use((socket, next) => {
+  const clientVersion = socket.handshake.auth?.protocolVersion
+  if (clientVersion === PROTOCOL_VERSION) {
+    next()
+    return
+  }
+
+  console.log(`Refused socket ${socket.id}: protocol version ${clientVersion}, expected ${PROTOCOL_VERSION}`)
+  const error: Error & { data?: ProtocolMismatchData } = new Error(PROTOCOL_MISMATCH)
+  error.data = { serverVersion: PROTOCOL_VERSION }
+  next(error)
+})
+
 // Socket connection handling
-io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>) => {
+io.on('connection', (socket: GameSocket) => {
   console.log(`Player connected: ${socket.id}`)
+  socket.emit('welcome', { protocolVersion: PROTOCOL_VERSION })
   
   // Track if this socket has already joined a game
   let hasJoined = false;
+
+  // Look up the room this socket is subscribed to
+  const getRoom = () => rooms.get(socket.data.roomId)
+
+  // Listen for a client event, only passing on payloads that pass validation
+  const on = <E extends ClientEvent>(event: E, handler: (data: ClientPayload<E>) => void) => {
+    const listener = (data: unknown) => {
+      inboundEvents.inc({ event })
+      const result = validatePayload(event, data)
+      if (!result.ok) {
+        console.log(`Rejected ${event} from socket ${socket.id}: ${result.code} (${result.message})`)
+        socket.emit('error', { code: result.code, event, message: result.message })
+        return
+      }
+      handler(result.value)
+    }
+    // The listener checks its own argument, so it can stand in for any typed listener
+    socket.on(event, listener as never)
+  }
+
+  // Unsubscribe the socket from its current room, dropping its player if it had one
+  const leaveCurrentRoom = () => {
+    const room = getRoom()
+    if (!room) return
+
+    const playerId = socket.data.playerId
+    if (playerId && room.getPlayer(playerId)) {
+      room.removePlayer(playerId)
+    }
+
+    socket.leave(room.id)
+    room.removeMember(socket.id)
+    socket.data.roomId = undefined
+    socket.data.playerId = undefined
+    socket.data.spectator = false
+    hasJoined = false;
+    rooms.releaseIfEmpty(room)
+  }
+
+  // When a socket picks the room (match) it wants to play in
+  on('joinRoom', ({ roomId, preset }) => {
+    if (socket.data.roomId !== roomId) {
+      leaveCurrentRoom()
+
+      const room = rooms.getOrCreate(roomId, preset)
+      room.addMember(socket.id)
+      socket.join(room.id)
+      socket.data.roomId = room.id
+
+      // Make sure the newcomer gets the state even if nothing else changes
+      room.markDirty()
+
+      console.log(`Socket ${socket.id} joined room ${room.id}`)
+    }
+
+    socket.emit('roomJoined', { roomId })
+  })
+  
+  // Spectators who decide to play give up their spectator seat
+  const stopSpectating = () => {
+    if (socket.data.spectator) {
+      getRoom()?.removeSpectator(socket.id)
+      socket.data.spectator = false
+    }
+  }
+
+  // When a socket wants to watch its room's match without playing
+  on('spectate', () => {
+    const room = getRoom()
+    if (!room) {
+      console.log(`Socket ${socket.id} tried to spectate before joining a room, ignoring`)
+      return
+    }
+
+    // Players can't watch their own match from the stands
+    if (hasJoined || socket.data.playerId) {
+      console.log(`Socket ${socket.id} tried to spectate while playing, ignoring`)
+      return
+    }
+
+    if (!socket.data.spectator) {
+      socket.data.spectator = true
+      room.addSpectator(socket.id)
+      console.log(`[${room.id}] Socket ${socket.id} is spectating`)
+    }
+    socket.emit('spectating')
+  })
   
   // When a player joins the game
-  socket.on('joinGame', () => {
+  on('joinGame', () => {
+    const room = getRoom()
+    if (!room) {
+      console.log(`Socket ${socket.id} tried to join a game before joining a room, ignoring`)
+      return
+    }
+
     // Prevent multiple join events from the same socket
     if (hasJoined || socket.data.playerId) {
       console.log(`Socket ${socket.id} attempted to join multiple times, ignoring`)
@@ -125,291 +178,264 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents,
     }
     
     hasJoined = true;
+    stopSpectating()
     
-    // Generate a unique player ID
+    // Generate a unique player ID and add the player to the room
     const playerId = uuidv4()
-    
-    // Assign team and role
-    const { team, role } = assignTeamAndRole(gameState.players)
-    
-    // Add player to game state
-    gameState.players[playerId] = {
-      id: playerId,
-      position: team === 'blue' ? [-15, 5, 0] : [15, 5, 0], // Starting position based on team
-      rotation: [0, 0, 0],
-      team,
-      role,
-      isActive: true
-    }
-    
-    // If game was waiting and now we have players, start the game
-    if (gameState.status === 'waiting' && Object.keys(gameState.players).length >= 2) {
-      gameState.status = 'playing'
-    }
+    const { team, role } = room.addPlayer(playerId)
     
     // Associate socket ID with player ID for future reference
     socket.data.playerId = playerId
+    room.bindSocket(playerId, socket.id)
     
-    // Notify player of their assignment
-    socket.emit('playerAssigned', { playerId, team, role })
-    
-    // Broadcast updated game state to all players
-    io.emit('gameState', gameState)
+    // Notify player of their assignment, with the token they need to
+    // reconnect - everyone in the room gets the updated game state with the next snapshot
+    const sessionToken = room.createSession(playerId)
+    socket.emit('playerAssigned', { playerId, team, role, sessionToken })
     
-    console.log(`Player ${playerId} joined as ${role} on ${team} team`)
+    console.log(`[${room.id}] Player ${playerId} joined as ${role} on ${team} team`)
   })
   
-  // Handle player movement and action updates
-  socket.on('playerUpdate', (data) => {
+  // Queue a gameplay input from this socket's player for the next room tick
+  const queueInput = (input: PlayerInput) => {
+    const room = getRoom()
     const playerId = socket.data.playerId
     
-    // Update player position and rotation if valid
-    if (playerId && gameState.players[playerId]) {
-      // Store the updated position and rotation
-      gameState.players[playerId].position = data.position;
-      gameState.players[playerId].rotation = data.rotation;
-      
-      // Create a more efficient update packet with just the changed player's data
-      const playerUpdate = {
-        id: playerId,
-        position: data.position,
-        rotation: data.rotation
-      };
-      
-      // Broadcast only the updated player data to all other clients (more efficient)
-      socket.broadcast.emit('playerPositionUpdate', playerUpdate);
+    if (room && playerId && room.getPlayer(playerId)) {
+      room.queueInput(playerId, input)
     }
+  }
+  
+  // Handle player movement and action updates
+  on('playerUpdate', (data) => {
+    queueInput({ type: 'move', position: data.position, rotation: data.rotation })
   })
   
-  // Handle berry collection
-  socket.on('collectBerry', (data) => {
-    const playerId = socket.data.playerId
-    
-    if (playerId && gameState.players[playerId]) {
-      const player = gameState.players[playerId]
-      
-      // Only workers can collect berries
-      if (player.role === 'worker') {
-        // In a real game, we'd check proximity to berry here
-        
-        // Add berry to team's count
-        gameState.berryCount[player.team]++
-        
-        // Check for economic victory (12 berries)
-        if (gameState.berryCount[player.team] >= 12) {
-          gameState.status = 'ended'
-          io.emit('gameOver', { winner: player.team, reason: 'economic' })
-        }
-        
-        // Broadcast updated game state
-        io.emit('gameState', gameState)
-      }
-    }
+  // The client applied a state frame - later frames can build on it
+  on('ackState', (data) => {
+    getRoom()?.acknowledgeState(socket.id, data.seq)
+  })
+  
+  // The client can't apply a delta - start it over from the whole state
+  on('requestResync', () => {
+    getRoom()?.resync(socket.id)
+  })
+  
+  // Handle berry pickup
+  on('collectBerry', (data) => {
+    queueInput({ type: 'collectBerry', berryId: data.berryId })
+  })
+  
+  // Handle berry deposit at the team hive
+  on('depositBerry', () => {
+    queueInput({ type: 'depositBerry' })
+  })
+  
+  // Handle a queen capturing a warrior gate for her team
+  on('captureGate', (data) => {
+    queueInput({ type: 'captureGate', gateId: data.gateId })
+  })
+  
+  // Handle a worker with a berry stepping into a gate to become a soldier
+  on('enterGate', (data) => {
+    queueInput({ type: 'enterGate', gateId: data.gateId })
+  })
+  
+  // Handle mounting (or contesting) the snail
+  on('mountSnail', () => {
+    queueInput({ type: 'mountSnail' })
+  })
+  
+  // Handle getting off the snail
+  on('dismountSnail', () => {
+    queueInput({ type: 'dismountSnail' })
+  })
+  
+  // Handle attacks - the server decides who (if anyone) gets hit
+  on('attack', () => {
+    queueInput({ type: 'attack' })
+  })
+  
+  // Handle toggling ready in the pre-match lobby
+  on('setReady', (data) => {
+    queueInput({ type: 'setReady', ready: data.ready })
   })
   
-  // Handle snail movement
-  socket.on('moveSnail', (data) => {
+  // Handle rematch votes after a match ends
+  on('voteRematch', (data) => {
+    queueInput({ type: 'voteRematch', accept: data.accept })
+  })
+  
+  // Handle nickname changes
+  on('setName', (data) => {
+    const room = getRoom()
     const playerId = socket.data.playerId
-    
-    if (playerId && gameState.players[playerId]) {
-      const player = gameState.players[playerId]
-      
-      // Only workers can move the snail
-      if (player.role === 'worker') {
-        // Move snail in direction of player's team
-        const direction = player.team === 'blue' ? 1 : -1
-        
-        // Update snail position (clamped between 0-100)
-        gameState.snailPosition = Math.min(100, Math.max(0, gameState.snailPosition + direction))
-        
-        // Check for snail victory
-        if (gameState.snailPosition >= 100) {
-          gameState.status = 'ended'
-          io.emit('gameOver', { winner: 'blue', reason: 'snail' })
-        } else if (gameState.snailPosition <= 0) {
-          gameState.status = 'ended'
-          io.emit('gameOver', { winner: 'gold', reason: 'snail' })
-        }
-        
-        // Broadcast updated game state
-        io.emit('gameState', gameState)
-      }
+    if (!room || !playerId || !room.getPlayer(playerId)) return
+
+    if (!room.renamePlayer(playerId, data.name)) {
+      socket.emit('error', { code: 'invalid_value', event: 'setName', message: 'name is empty once cleaned up' })
     }
   })
   
-  // Handle queen kills
-  socket.on('attackQueen', (data) => {
+  // Handle chat messages, to everyone in the room or only the sender's team
+  on('chat', (data) => {
+    const room = getRoom()
     const playerId = socket.data.playerId
-    
-    if (playerId && gameState.players[playerId]) {
-      const player = gameState.players[playerId]
-      
-      // Only soldiers can attack queens
-      if (player.role === 'soldier') {
-        // In a real game, we'd check proximity to queen here
-        
-        // Update queen status
-        const targetTeam = player.team === 'blue' ? 'gold' : 'blue'
-        if (targetTeam === 'blue') {
-          gameState.blueQueenAlive = false
-          gameState.goldScore++
-        } else {
-          gameState.goldQueenAlive = false
-          gameState.blueScore++
-        }
-        
-        // Check for military victory (3 kills)
-        if (gameState.blueScore >= 3) {
-          gameState.status = 'ended'
-          io.emit('gameOver', { winner: 'blue', reason: 'military' })
-        } else if (gameState.goldScore >= 3) {
-          gameState.status = 'ended'
-          io.emit('gameOver', { winner: 'gold', reason: 'military' })
-        }
-        
-        // Broadcast updated game state
-        io.emit('gameState', gameState)
-        
-        // Respawn queen after 5 seconds
-        setTimeout(() => {
-          if (targetTeam === 'blue') {
-            gameState.blueQueenAlive = true
-          } else {
-            gameState.goldQueenAlive = true
-          }
-          io.emit('gameState', gameState)
-        }, 5000)
-      }
+    if (!room || !playerId) return
+
+    const result = room.sendChat(playerId, data.channel, data.text)
+    if (result === 'rate_limited') {
+      socket.emit('error', { code: 'rate_limited', event: 'chat', message: 'sending messages too fast' })
+    } else if (result === 'empty') {
+      socket.emit('error', { code: 'invalid_value', event: 'chat', message: 'message is empty once cleaned up' })
     }
   })
   
+  // Handle picking a team and role in the lobby
+  on('claimSlot', (data) => {
+    queueInput({ type: 'claimSlot', team: data.team, role: data.role })
+  })
+  
+  // Handle asking another player to trade slots
+  on('requestSwap', (data) => {
+    queueInput({ type: 'requestSwap', playerId: data.playerId })
+  })
+  
+  // Handle accepting or declining a swap request
+  on('answerSwap', (data) => {
+    queueInput({ type: 'answerSwap', playerId: data.playerId, accept: data.accept })
+  })
+  
   // Handle player disconnect
   socket.on('disconnect', () => {
+    const room = getRoom()
+    if (!room) return
+
+    room.removeMember(socket.id)
+
     const playerId = socket.data.playerId
+    const player = room.getPlayer(playerId)
     
-    if (playerId && gameState.players[playerId]) {
+    if (playerId && player) {
       // Mark player as inactive but don't remove immediately
       // This allows for reconnections without losing player state
-      gameState.players[playerId].isActive = false
+      room.deactivatePlayer(playerId)
       
-      // Broadcast updated game state
-      io.emit('gameState', gameState)
-      
-      // Give more time for reconnection - 30 seconds instead of 5
-      setTimeout(() => {
+      // Keep their place for as long as the room's rules allow
+      room.setTimeout(() => {
         // Check if the player is still in the game state and still inactive
-        if (gameState.players[playerId] && !gameState.players[playerId].isActive) {
-          console.log(`Player ${playerId} didn't reconnect, removing from game`)
-          delete gameState.players[playerId]
-          io.emit('gameState', gameState)
+        const stalePlayer = room.getPlayer(playerId)
+        if (stalePlayer && !stalePlayer.isActive) {
+          console.log(`[${room.id}] Player ${playerId} didn't reconnect, removing from game`)
+          room.removePlayer(playerId)
         }
-      }, 30000) // 30 seconds
+        rooms.releaseIfEmpty(room)
+      }, room.gameState.rules.disconnectGrace * 1000)
       
-      console.log(`Player ${playerId} disconnected (temporarily)`)
+      console.log(`[${room.id}] Player ${playerId} disconnected (temporarily)`)
+    } else {
+      rooms.releaseIfEmpty(room)
     }
   })
   
   // Handle explicit leave game event
-  socket.on('leaveGame', () => {
+  on('leaveGame', () => {
+    const room = getRoom()
     const playerId = socket.data.playerId
+    const player = room?.getPlayer(playerId)
     
-    if (playerId && gameState.players[playerId]) {
+    if (room && playerId && player) {
       // First mark the player as inactive
-      gameState.players[playerId].isActive = false
-      
-      // Broadcast the updated state
-      io.emit('gameState', gameState)
+      room.deactivatePlayer(playerId)
       
-      console.log(`Player ${playerId} marked inactive, waiting to remove from game`)
+      console.log(`[${room.id}] Player ${playerId} marked inactive, waiting to remove from game`)
       
       // Then remove after a short delay to avoid immediate rejoin issues
-      setTimeout(() => {
+      room.setTimeout(() => {
         // Check if the player is still in the game state
-        if (gameState.players[playerId]) {
-          delete gameState.players[playerId]
+        if (room.getPlayer(playerId)) {
+          room.removePlayer(playerId)
           // Clear the socket's player ID
-          socket.data.playerId = undefined
-          hasJoined = false;
-          io.emit('gameState', gameState)
-          console.log(`Player ${playerId} left the game permanently`)
+          if (socket.data.playerId === playerId) {
+            socket.data.playerId = undefined
+            hasJoined = false;
+          }
+          console.log(`[${room.id}] Player ${playerId} left the game permanently`)
         }
+        rooms.releaseIfEmpty(room)
       }, 1000);
     }
   })
   
   // Handle player reconnection
-  socket.on('reconnectPlayer', (data) => {
-    const { playerId } = data;
+  on('reconnectPlayer', (data) => {
+    const room = getRoom()
+    if (!room) {
+      console.log(`Socket ${socket.id} tried to reconnect before joining a room, ignoring`)
+      return
+    }
+
+    // A socket controls a single player - taking another would orphan the first
+    if (hasJoined || socket.data.playerId) {
+      console.log(`[${room.id}] Refused reconnect from socket ${socket.id}: it already controls ${socket.data.playerId}`)
+      socket.emit('error', { code: 'invalid_session', event: 'reconnectPlayer', message: 'this socket already controls a player' })
+      return
+    }
+
+    // Refuse clients that keep presenting bad tokens
+    const address = socket.handshake.address
+    if (reconnectLimiter.isLimited(address)) {
+      console.log(`[${room.id}] Refused reconnect from ${address}: too many failed attempts`)
+      socket.emit('error', { code: 'rate_limited', event: 'reconnectPlayer', message: 'too many failed reconnection attempts, try again later' })
+      return
+    }
+
+    const { playerId, sessionToken } = data;
+    const player = room.getPlayer(playerId)
+
+    // Only the client the player was issued to can take it back
+    if (player && !room.hasSession(playerId, sessionToken)) {
+      reconnectLimiter.recordFailure(address)
+      console.log(`[${room.id}] Rejected reconnect to ${playerId} from socket ${socket.id}: invalid session token`)
+      socket.emit('error', { code: 'invalid_session', event: 'reconnectPlayer', message: 'session token does not match this player' })
+      return
+    }
+
+    stopSpectating()
     
-    // Check if the player exists in the game state
-    if (playerId && gameState.players[playerId]) {
-      console.log(`Player ${playerId} reconnected`)
+    // Check if the player exists in this room
+    if (player) {
+      console.log(`[${room.id}] Player ${playerId} reconnected`)
       
       // Associate socket ID with player ID for future reference
       socket.data.playerId = playerId
+      room.bindSocket(playerId, socket.id)
       hasJoined = true;
       
-      // Mark the player as active again
-      gameState.players[playerId].isActive = true;
-      
-      // Send the current game state to this player
-      socket.emit('gameState', gameState)
-      
-      // Notify other players about this player's return
-      io.emit('gameState', gameState)
+      // Mark the player as active again - everyone in the room (including
+      // this player) gets the current state with the next snapshot
+      room.reactivatePlayer(playerId)
     } else {
-      console.log(`Player ${playerId} tried to reconnect but wasn't found - creating new session`)
+      console.log(`[${room.id}] Player ${playerId} tried to reconnect but wasn't found - creating new session`)
       
-      // Generate a new player ID
+      // Generate a new player ID and add the player to the room
       const newPlayerId = uuidv4()
-      
-      // Assign team and role
-      const { team, role } = assignTeamAndRole(gameState.players)
-      
-      // Add player to game state
-      gameState.players[newPlayerId] = {
-        id: newPlayerId,
-        position: team === 'blue' ? [-15, 5, 0] : [15, 5, 0], // Starting position based on team
-        rotation: [0, 0, 0],
-        team,
-        role,
-        isActive: true
-      }
-      
-      // If game was waiting and now we have players, start the game
-      if (gameState.status === 'waiting' && Object.keys(gameState.players).length >= 2) {
-        gameState.status = 'playing'
-      }
+      const { team, role } = room.addPlayer(newPlayerId)
       
       // Associate socket ID with player ID for future reference
       socket.data.playerId = newPlayerId
+      room.bindSocket(newPlayerId, socket.id)
       hasJoined = true;
       
       // Notify player of their assignment
-      socket.emit('playerAssigned', { playerId: newPlayerId, team, role })
-      
-      // Send the updated game state
-      io.emit('gameState', gameState)
+      const newSessionToken = room.createSession(newPlayerId)
+      socket.emit('playerAssigned', { playerId: newPlayerId, team, role, sessionToken: newSessionToken })
     }
   })
 })
 
-// Reset game state
-function resetGame() {
-  gameState = JSON.parse(JSON.stringify(initialGameState))
-  io.emit('gameState', gameState)
-  console.log('Game state reset')
-}
-
 // Start server
 const PORT = process.env.PORT || 3001
 httpServer.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`)
 })
-
-// Reset game every 10 minutes if ended
-setInterval(() => {
-  if (gameState.status === 'ended') {
-    resetGame()
-  }
-}, 10 * 60 * 1000) 
\ No newline at end of file
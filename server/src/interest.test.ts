@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { GameEngine } from './engine'
+import { FAR_UPDATE_INTERVAL, InterestView, NEAR_RADIUS, SpatialGrid, playersOfInterest } from './game/interest'
+import { quantizeState } from '../../shared/stateSync'
+import { Player, Vector3Tuple } from './types'
+
+// A match with the given bees, each placed where it's listed
+const createEngine = (positions: Record<string, Vector3Tuple>) => {
+  const engine = new GameEngine({
+    id: 'test',
+    botSettings: { teamSize: 0, difficulty: 'normal' },
+    hooks: { broadcast: () => {}, sendToPlayer: () => {}, replayFinished: () => {}, log: () => {} }
+  })
+  Object.entries(positions).forEach(([id, position]) => {
+    engine.addPlayer(id)
+    engine.getPlayer(id)!.position = position
+  })
+  return engine
+}
+
+const playerAt = (id: string, position: Vector3Tuple) => ({ id, position }) as Player
+
+describe('area of interest', () => {
+  it('finds players within the radius across grid cells', () => {
+    const grid = new SpatialGrid([
+      playerAt('here', [0, 5, 0]),
+      playerAt('nextCell', [25, 5, -10]),
+      playerAt('edge', [NEAR_RADIUS - 1, 5, 0]),
+      playerAt('beyond', [NEAR_RADIUS + 1, 5, 0]),
+      playerAt('corner', [-70, 5, -70])
+    ])
+
+    const near = grid.near([0, 5, 0], NEAR_RADIUS).map(player => player.id).sort()
+    assert.deepEqual(near, ['edge', 'here', 'nextCell'])
+  })
+
+  it('always includes queens, the snail rider and berry carriers', () => {
+    const engine = createEngine({ viewer: [-90, 5, -90], near: [-80, 5, -90], queen: [90, 5, 0], rider: [90, 5, 90], carrier: [90, 5, -90], idle: [0, 5, 90] })
+    const { gameState } = engine
+    Object.values(gameState.players).forEach(player => {
+      player.role = player.id === 'queen' ? 'queen' : 'worker'
+    })
+    gameState.snail.riderId = 'rider'
+    Object.values(gameState.berries)[0].carrierId = 'carrier'
+
+    const grid = new SpatialGrid(Object.values(gameState.players))
+    const interesting = playersOfInterest(gameState, grid, 'viewer')
+
+    assert.deepEqual([...interesting].sort(), ['carrier', 'near', 'queen', 'rider', 'viewer'])
+    assert.ok(!interesting.has('idle'))
+  })
+
+  it('sends distant players at a lower rate, keeping the rest of their state current', () => {
+    const engine = createEngine({ near: [0, 5, 0], far: [90, 5, 90] })
+    const view = new InterestView()
+    const interesting = new Set(['near'])
+    const first = view.next(quantizeState(engine.gameState), interesting, 0)
+
+    engine.getPlayer('near')!.position = [1, 5, 0]
+    engine.getPlayer('far')!.position = [91, 5, 90]
+    engine.getPlayer('far')!.isAlive = false
+    const held = view.next(quantizeState(engine.gameState), interesting, 1)
+    assert.deepEqual(held.players.near.position, [100, 500, 0])
+    assert.deepEqual(held.players.far.position, first.players.far.position)
+    assert.equal(held.players.far.isAlive, false)
+
+    const refreshed = view.next(quantizeState(engine.gameState), interesting, FAR_UPDATE_INTERVAL)
+    assert.deepEqual(refreshed.players.far.position, [9100, 500, 9000])
+  })
+
+  it('is due a refresh for a distant player who stopped since their position was held back', () => {
+    const engine = createEngine({ near: [0, 5, 0], far: [90, 5, 90] })
+    const view = new InterestView()
+    const interesting = new Set(['near'])
+    view.next(quantizeState(engine.gameState), interesting, 0)
+    assert.equal(view.due(FAR_UPDATE_INTERVAL), false)
+
+    // The far player moves once, then nothing changes
+    engine.getPlayer('far')!.position = [92, 5, 90]
+    view.next(quantizeState(engine.gameState), interesting, 1)
+    assert.equal(view.due(FAR_UPDATE_INTERVAL - 1), false)
+    assert.equal(view.due(FAR_UPDATE_INTERVAL), true)
+
+    const refreshed = view.next(quantizeState(engine.gameState), interesting, FAR_UPDATE_INTERVAL)
+    assert.deepEqual(refreshed.players.far.position, [9200, 500, 9000])
+    assert.equal(view.due(FAR_UPDATE_INTERVAL * 3), false)
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Counter, Histogram, renderGauge } from './metrics/metrics'
+
+describe('metrics', () => {
+  it('renders counters by label in the Prometheus text format', () => {
+    const counter = new Counter('events_total', 'Events seen')
+    counter.inc({ event: 'chat' })
+    counter.inc({ event: 'chat' }, 2)
+    counter.inc({ event: 'say "hi"' })
+
+    assert.deepEqual(counter.render(), [
+      '# HELP killerqueen_events_total Events seen',
+      '# TYPE killerqueen_events_total counter',
+      'killerqueen_events_total{event="chat"} 3',
+      'killerqueen_events_total{event="say \\"hi\\""} 1'
+    ])
+  })
+
+  it('counts histogram observations into cumulative buckets', () => {
+    const histogram = new Histogram('tick_seconds', 'Tick time', [0.01, 0.1])
+    histogram.observe(0.005)
+    histogram.observe(0.05)
+    histogram.observe(1)
+
+    assert.deepEqual(histogram.render().slice(2), [
+      'killerqueen_tick_seconds_bucket{le="0.01"} 1',
+      'killerqueen_tick_seconds_bucket{le="0.1"} 2',
+      'killerqueen_tick_seconds_bucket{le="+Inf"} 3',
+      'killerqueen_tick_seconds_sum 1.055',
+      'killerqueen_tick_seconds_count 3'
+    ])
+  })
+
+  it('renders gauges with and without labels', () => {
+    assert.deepEqual(renderGauge('rooms', 'Live rooms', [{ value: 2 }, { labels: { room: 'a' }, value: 1 }]).slice(2), [
+      'killerqueen_rooms 2',
+      'killerqueen_rooms{room="a"} 1'
+    ])
+  })
+})
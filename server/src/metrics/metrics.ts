@@ -0,0 +1,111 @@
+// Metric names all start with this, so they're easy to find on a shared dashboard
+const PREFIX = 'killerqueen_'
+
+export type Labels = Record<string, string>
+
+export interface Sample {
+  labels?: Labels
+  value: number
+}
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+
+// Labels in the Prometheus text format, e.g. {event="chat"}
+const formatLabels = (labels: Labels = {}) => {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+const header = (name: string, help: string, type: 'counter' | 'gauge' | 'histogram') =>
+  [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`]
+
+// A metric whose values are sampled when it's scraped, e.g. how many sockets are connected right now
+export const renderGauge = (name: string, help: string, samples: Sample[]) => [
+  ...header(PREFIX + name, help, 'gauge'),
+  ...samples.map(({ labels, value }) => `${PREFIX}${name}${formatLabels(labels)} ${value}`)
+]
+
+/**
+ * A count that only goes up, optionally split by labels.
+ */
+export class Counter {
+  readonly name: string
+  private help: string
+  // Keyed by the formatted labels, which are always listed in the same order at each call site
+  private values = new Map<string, number>()
+
+  constructor(name: string, help: string) {
+    this.name = PREFIX + name
+    this.help = help
+  }
+
+  inc(labels?: Labels, amount = 1) {
+    const key = formatLabels(labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + amount)
+  }
+
+  render() {
+    // Report a zero rather than nothing before the first increment, so rate() has a starting point
+    const values = this.values.size > 0 ? [...this.values] : [['', 0] as const]
+    return [
+      ...header(this.name, this.help, 'counter'),
+      ...values.map(([labels, value]) => `${this.name}${labels} ${value}`)
+    ]
+  }
+}
+
+/**
+ * How a measurement is spread over a fixed set of buckets, e.g. how long ticks take.
+ */
+export class Histogram {
+  readonly name: string
+  private help: string
+  private buckets: number[]
+  // Observations at or below each bucket's bound - cumulative, as Prometheus expects
+  private bucketCounts: number[]
+  private sum = 0
+  private count = 0
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = PREFIX + name
+    this.help = help
+    this.buckets = buckets
+    this.bucketCounts = buckets.map(() => 0)
+  }
+
+  observe(value: number) {
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        this.bucketCounts[i]++
+      }
+    })
+    this.sum += value
+    this.count++
+  }
+
+  render() {
+    return [
+      ...header(this.name, this.help, 'histogram'),
+      ...this.buckets.map((bound, i) => `${this.name}_bucket{le="${bound}"} ${this.bucketCounts[i]}`),
+      `${this.name}_bucket{le="+Inf"} ${this.count}`,
+      `${this.name}_sum ${this.sum}`,
+      `${this.name}_count ${this.count}`
+    ]
+  }
+}
+
+// Everything the server counts as it runs. Gauges are sampled when /metrics is scraped instead.
+
+export const inboundEvents = new Counter('inbound_events_total', 'Socket events received from clients, by event')
+
+export const matchesStarted = new Counter('matches_started_total', 'Games that got past the lobby countdown')
+
+export const matchesFinished = new Counter('matches_finished_total', 'Games that ended, by win reason')
+
+export const sentBytes = new Counter('broadcast_bytes_total', 'Approximate payload bytes sent to clients, by event')
+
+// The tick budget is 33ms at 30 ticks a second
+export const tickDuration = new Histogram('tick_duration_seconds', 'Time taken by one simulation step',
+  [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.02, 0.033, 0.05, 0.1])
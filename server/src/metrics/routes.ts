@@ -0,0 +1,63 @@
+import { Router } from 'express'
+import { RoomManager } from '../roomManager'
+import { GameServer } from '../types'
+import { getRejectedCounts } from '../validation'
+import { Counter, inboundEvents, matchesFinished, matchesStarted, renderGauge, sentBytes, tickDuration } from './metrics'
+
+interface HealthRouterOptions {
+  io: GameServer
+  rooms: RoomManager
+  // Whether the server is taking connections, e.g. false until it's listening
+  isReady: () => boolean
+}
+
+// Rejected payloads are counted by the validator, so they're copied into a counter at scrape time
+const rejectedEvents = () => {
+  const counter = new Counter('rejected_events_total', 'Socket events that failed validation, by event')
+  Object.entries(getRejectedCounts()).forEach(([event, count]) => counter.inc({ event }, count))
+  return counter
+}
+
+/**
+ * HTTP routes for orchestrators and monitoring.
+ *
+ * GET /healthz - 200 while the process is up
+ * GET /readyz  - 200 once the server takes connections, 503 before
+ * GET /metrics - Prometheus text format
+ */
+export const createHealthRouter = ({ io, rooms, isReady }: HealthRouterOptions) => {
+  const router = Router()
+
+  router.get('/healthz', (_req, res) => {
+    res.json({ status: 'ok' })
+  })
+
+  router.get('/readyz', (_req, res) => {
+    if (isReady()) {
+      res.json({ status: 'ready' })
+    } else {
+      res.status(503).json({ status: 'not_ready' })
+    }
+  })
+
+  router.get('/metrics', (_req, res) => {
+    const roomList = rooms.list()
+    const lines = [
+      ...renderGauge('connected_sockets', 'Sockets connected to the server', [{ value: io.engine.clientsCount }]),
+      ...renderGauge('rooms', 'Live rooms', [{ value: roomList.length }]),
+      ...renderGauge('active_players', 'Connected human players, by room', roomList.map(room => ({
+        labels: { room: room.id },
+        value: Object.values(room.gameState.players).filter(player => player.isActive && !player.isBot).length
+      }))),
+      ...inboundEvents.render(),
+      ...rejectedEvents().render(),
+      ...matchesStarted.render(),
+      ...matchesFinished.render(),
+      ...sentBytes.render(),
+      ...tickDuration.render()
+    ]
+    res.type('text/plain; version=0.0.4').send(lines.join('\n') + '\n')
+  })
+
+  return router
+}
@@ -0,0 +1,84 @@
+import { REPLAY_FORMAT_VERSION, ReplayEvent, ReplayEventBody, ReplayFile, PlayerFrame } from '../../../shared/replay'
+import { GameState, PROTOCOL_VERSION, Team, WinReason } from '../types'
+
+// Round to two decimals, which is plenty to play a game back
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Positions are sampled every this many ticks (10 times a second at 30 Hz)
+const FRAME_INTERVAL = 3
+
+/**
+ * Records one game of a room as a replay.
+ *
+ * The room feeds it events as they happen; `finish` stamps the result and
+ * returns the complete replay, ready to be saved.
+ */
+export class ReplayRecorder {
+  private readonly roomId: string
+  private readonly recordedAt = new Date()
+  private readonly start: Pick<ReplayFile, 'map' | 'gameNumber' | 'sides' | 'berries' | 'gates'>
+  private events: ReplayEvent[] = []
+  private playerIds = new Set<string>()
+  private ticks = 0
+  private snailRiderId: string | null = null
+
+  constructor(roomId: string, gameState: GameState) {
+    this.roomId = roomId
+    this.start = JSON.parse(JSON.stringify({
+      map: gameState.map,
+      gameNumber: gameState.series.gameNumber,
+      sides: gameState.sides,
+      berries: gameState.berries,
+      gates: gameState.gates
+    }))
+  }
+
+  record(t: number, event: ReplayEventBody) {
+    if (event.type === 'join') {
+      this.playerIds.add(event.playerId)
+    }
+    this.events.push({ ...event, t: round(t) })
+  }
+
+  // Called once per tick of play: notes who rides the snail and samples positions
+  update(gameState: GameState) {
+    const { riderId } = gameState.snail
+    if (riderId !== this.snailRiderId) {
+      this.snailRiderId = riderId
+      this.record(gameState.matchTime, { type: 'snailRider', riderId })
+    }
+
+    if (this.ticks++ % FRAME_INTERVAL === 0) {
+      this.recordFrame(gameState)
+    }
+  }
+
+  // Sample every player's position and the snail's progress
+  private recordFrame(gameState: GameState) {
+    const players: Record<string, PlayerFrame> = {}
+    for (const player of Object.values(gameState.players)) {
+      const [x, y, z] = player.position
+      players[player.id] = [round(x), round(y), round(z), round(player.rotation[1])]
+    }
+    this.record(gameState.matchTime, { type: 'frame', players, snail: round(gameState.snailPosition) })
+  }
+
+  finish(gameState: GameState, winner: Team, reason: WinReason): ReplayFile {
+    // Room IDs are already limited to letters, digits, - and _
+    const stamp = this.recordedAt.toISOString().replace(/[:.]/g, '-')
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      protocolVersion: PROTOCOL_VERSION,
+      id: `${this.roomId}_${stamp}_game${this.start.gameNumber}`,
+      roomId: this.roomId,
+      recordedAt: this.recordedAt.toISOString(),
+      duration: round(gameState.matchTime),
+      winner,
+      reason,
+      playerCount: this.playerIds.size,
+      rules: { ...gameState.rules },
+      ...this.start,
+      events: this.events
+    }
+  }
+}
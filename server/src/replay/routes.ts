@@ -0,0 +1,37 @@
+import { Router } from 'express'
+import { isValidReplayId, listReplays, replayExists, replayPath } from './storage'
+
+/**
+ * HTTP routes for recorded games.
+ *
+ * GET /replays      - summaries of every saved replay, newest first
+ * GET /replays/:id  - download a replay (gzipped JSON)
+ */
+export const createReplayRouter = () => {
+  const router = Router()
+
+  router.get('/', async (_req, res) => {
+    try {
+      res.json({ replays: await listReplays() })
+    } catch (error) {
+      console.error('Failed to list replays:', error)
+      res.status(500).json({ error: 'replay_list_failed' })
+    }
+  })
+
+  router.get('/:id', async (req, res) => {
+    const { id } = req.params
+    if (!isValidReplayId(id)) {
+      res.status(400).json({ error: 'invalid_replay_id' })
+      return
+    }
+    if (!(await replayExists(id))) {
+      res.status(404).json({ error: 'replay_not_found' })
+      return
+    }
+
+    res.download(replayPath(id), `${id}.replay.json.gz`)
+  })
+
+  return router
+}
@@ -0,0 +1,65 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { promisify } from 'util'
+import { gzip } from 'zlib'
+import { ReplayFile, ReplaySummary } from '../../../shared/replay'
+
+const gzipAsync = promisify(gzip)
+
+// Where replays are written, relative to the directory the server was started from
+export const REPLAY_DIR = path.resolve(process.env.REPLAY_DIR || 'replays')
+
+// Replay IDs end up in file paths, so only accept the characters we generate
+const REPLAY_ID_PATTERN = /^[a-zA-Z0-9_-]{1,128}$/
+
+export const isValidReplayId = (id: unknown): id is string =>
+  typeof id === 'string' && REPLAY_ID_PATTERN.test(id)
+
+// Each replay is stored as the gzipped replay plus a small summary for the replay list
+export const replayPath = (id: string) => path.join(REPLAY_DIR, `${id}.replay.json.gz`)
+const summaryPath = (id: string) => path.join(REPLAY_DIR, `${id}.summary.json`)
+
+export const saveReplay = async (replay: ReplayFile) => {
+  const summary: ReplaySummary = {
+    id: replay.id,
+    roomId: replay.roomId,
+    recordedAt: replay.recordedAt,
+    duration: replay.duration,
+    map: replay.map,
+    gameNumber: replay.gameNumber,
+    winner: replay.winner,
+    reason: replay.reason,
+    playerCount: replay.playerCount
+  }
+
+  await fs.mkdir(REPLAY_DIR, { recursive: true })
+  await fs.writeFile(replayPath(replay.id), await gzipAsync(JSON.stringify(replay)))
+  await fs.writeFile(summaryPath(replay.id), JSON.stringify(summary))
+}
+
+// Summaries of every saved replay, newest first
+export const listReplays = async (): Promise<ReplaySummary[]> => {
+  let files: string[]
+  try {
+    files = await fs.readdir(REPLAY_DIR)
+  } catch {
+    // Nothing has been recorded yet
+    return []
+  }
+
+  const summaries = await Promise.all(
+    files
+      .filter(file => file.endsWith('.summary.json'))
+      .map(async file => JSON.parse(await fs.readFile(path.join(REPLAY_DIR, file), 'utf8')) as ReplaySummary)
+  )
+  return summaries.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))
+}
+
+export const replayExists = async (id: string) => {
+  try {
+    await fs.access(replayPath(id))
+    return true
+  } catch {
+    return false
+  }
+}
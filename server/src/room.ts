@@ -0,0 +1,413 @@
+import { GameEngine } from './engine'
+import { BotSettings, DEFAULT_BOT_SETTINGS } from './game/bots'
+import { InterestView, SpatialGrid, playersOfInterest } from './game/interest'
+import { DEFAULT_RULES } from './game/rules'
+import { ChatLimiter, cleanChatText, cleanName } from './chat'
+import { saveReplay } from './replay/storage'
+import { createSessionToken, sessionTokensMatch } from './sessions'
+import { matchesFinished, matchesStarted, sentBytes, tickDuration } from './metrics/metrics'
+import { AdminAction, ChatChannel, GameServer, GameState, MatchRules, Player, PlayerInput, Role, ServerEvent, ServerToClientEvents, Team } from './types'
+import { WireState, diffState, encodeFrame, quantizeState } from '../../shared/stateSync'
+
+export type ChatResult = 'sent' | 'no_player' | 'empty' | 'rate_limited'
+
+export type AdminResult = 'done' | 'no_such_player' | 'unchanged' | 'not_playing'
+
+// The simulation advances in fixed steps of 1/30th of a second
+export const TICK_RATE = 30
+const TICK_DT = 1 / TICK_RATE
+
+// After a stall (e.g. a GC pause), catch up at most this many ticks and drop the rest
+const MAX_CATCH_UP_TICKS = 5
+
+// States kept as baselines for deltas. A socket whose acknowledged state is older gets the whole state.
+const STATE_HISTORY = 2 * TICK_RATE
+
+// What a room has sent one socket
+interface SocketSync {
+  // States sent by seq, as this socket saw them
+  sent: Map<number, WireState>
+  // The newest state the socket has acknowledged, 0 before its first
+  acked: number
+  // How a socket controlling a player sees the others
+  view: InterestView
+}
+
+/**
+ * A single match running on the server.
+ *
+ * The room connects a game engine to the real world: it owns the sockets
+ * subscribed to the match and every timer it schedules, steps the engine at a
+ * fixed rate and sends each socket the changes since the last state it
+ * acknowledged whenever the state changed (see shared/stateSync.ts). Players
+ * see distant players move less often than nearby ones; spectators see
+ * everything.
+ * Several matches can run side by side and a room can be torn down without
+ * leaking timeouts into other matches.
+ */
+export class Room {
+  readonly id: string
+  readonly engine: GameEngine
+
+  private io: GameServer
+  private members = new Set<string>()
+  private spectators = new Set<string>()
+  private timeouts = new Set<NodeJS.Timeout>()
+  private intervals = new Set<NodeJS.Timeout>()
+  // The socket currently controlling each player, for messages meant only for them
+  private playerSockets = new Map<string, string>()
+  // Each player's session token, which a reconnecting client must present
+  private sessionTokens = new Map<string, string>()
+  private chatLimiter = new ChatLimiter()
+  private chatSeq = 0
+
+  private stateSeq = 0
+  private syncs = new Map<string, SocketSync>()
+  private accumulator = 0
+  private lastTickAt = Date.now()
+
+  constructor(id: string, io: GameServer, botSettings: BotSettings = DEFAULT_BOT_SETTINGS, rules: MatchRules = DEFAULT_RULES) {
+    this.id = id
+    this.io = io
+    this.engine = new GameEngine({
+      id,
+      botSettings,
+      rules,
+      hooks: {
+        broadcast: (event, ...args) => this.emit(event, ...args),
+        sendToPlayer: (playerId, event, ...args) => this.emitToPlayer(playerId, event, ...args),
+        // Write finished games to disk in the background
+        replayFinished: (replay) => {
+          saveReplay(replay)
+            .then(() => console.log(`[${this.id}] Saved replay ${replay.id}`))
+            .catch(error => console.error(`[${this.id}] Failed to save replay ${replay.id}:`, error))
+        },
+        gameStarted: () => matchesStarted.inc(),
+        gameEnded: (_winner, reason) => matchesFinished.inc({ reason })
+      }
+    })
+
+    // Run the simulation
+    this.setInterval(() => this.runTicks(), 1000 / TICK_RATE)
+  }
+
+  get gameState(): GameState {
+    return this.engine.gameState
+  }
+
+  // Socket membership
+
+  addMember(socketId: string) {
+    this.members.add(socketId)
+    this.syncs.set(socketId, { sent: new Map(), acked: 0, view: new InterestView() })
+  }
+
+  removeMember(socketId: string) {
+    this.members.delete(socketId)
+    this.syncs.delete(socketId)
+    this.removeSpectator(socketId)
+  }
+
+  // Spectators are members without a player: they get every state but take no team slot
+  addSpectator(socketId: string) {
+    this.spectators.add(socketId)
+    this.engine.setSpectatorCount(this.spectators.size)
+  }
+
+  removeSpectator(socketId: string) {
+    if (this.spectators.delete(socketId)) {
+      this.engine.setSpectatorCount(this.spectators.size)
+    }
+  }
+
+  // A room is empty once no socket is subscribed and no player is waiting to reconnect - bots don't count
+  isEmpty() {
+    return this.members.size === 0 && Object.values(this.gameState.players).every(player => player.isBot)
+  }
+
+  // Broadcasting
+
+  emit<E extends ServerEvent>(event: E, ...args: Parameters<ServerToClientEvents[E]>) {
+    this.io.to(this.id).emit(event, ...args)
+    this.countSentBytes(event, args, this.members.size)
+  }
+
+  // Make sure the state goes out after the next tick
+  markDirty() {
+    this.engine.markDirty()
+  }
+
+  // State sync
+
+  // A socket applied a state, so later ones can be sent as deltas against it
+  acknowledgeState(socketId: string, seq: number) {
+    const sync = this.syncs.get(socketId)
+    if (!sync || seq > this.stateSeq) return
+    sync.acked = Math.max(sync.acked, seq)
+  }
+
+  // Send a socket the whole state next, e.g. because it lost the baseline of a delta
+  resync(socketId: string) {
+    const sync = this.syncs.get(socketId)
+    if (!sync) return
+    sync.acked = 0
+    this.markDirty()
+  }
+
+  // Send an event to the socket controlling a player
+  emitToPlayer<E extends ServerEvent>(playerId: string, event: E, ...args: Parameters<ServerToClientEvents[E]>) {
+    const socketId = this.playerSockets.get(playerId)
+    if (socketId) {
+      this.io.to(socketId).emit(event, ...args)
+      this.countSentBytes(event, args, 1)
+    }
+  }
+
+  // Roughly what an event costs on the wire, for the server's metrics
+  private countSentBytes(event: ServerEvent, args: unknown[], recipients: number) {
+    if (recipients === 0) return
+    sentBytes.inc({ event }, Buffer.byteLength(JSON.stringify(args)) * recipients)
+  }
+
+  private sendState() {
+    this.stateSeq++
+    const { tick } = this.engine
+    const state = quantizeState(this.gameState)
+    const grid = new SpatialGrid(Object.values(this.gameState.players))
+    const socketPlayers = new Map([...this.playerSockets].map(([playerId, socketId]) => [socketId, playerId]))
+    // Sockets that see the whole state and acknowledged the same one share a frame
+    const sharedFrames = new Map<WireState | null, Uint8Array>()
+    let bytes = 0
+
+    this.syncs.forEach((sync, socketId) => {
+      // Players see distant players less often; spectators, and sockets yet to join, see everyone
+      const playerId = socketPlayers.get(socketId)
+      let view = state
+      if (playerId && !this.spectators.has(socketId)) {
+        view = sync.view.next(state, playersOfInterest(this.gameState, grid, playerId), tick)
+      } else {
+        sync.view.reset()
+      }
+
+      const baseSeq = sync.sent.has(sync.acked) ? sync.acked : 0
+      const base = sync.sent.get(baseSeq) ?? null
+      let frame = view === state ? sharedFrames.get(base) : undefined
+      if (!frame) {
+        frame = encodeFrame({ seq: this.stateSeq, tick, baseSeq, delta: diffState(base, view) })
+        if (view === state) sharedFrames.set(base, frame)
+      }
+      this.io.to(socketId).emit('stateSync', frame)
+      bytes += frame.byteLength
+
+      // Deltas only ever build on the newest acknowledged state, so anything older can go
+      sync.sent.set(this.stateSeq, view)
+      sync.sent.forEach((_, seq) => {
+        if (seq < sync.acked || seq <= this.stateSeq - STATE_HISTORY) sync.sent.delete(seq)
+      })
+    })
+
+    if (bytes > 0) {
+      sentBytes.inc({ event: 'stateSync' }, bytes)
+    }
+  }
+
+  // Players
+
+  // Route player-specific messages to this socket
+  bindSocket(playerId: string, socketId: string) {
+    this.playerSockets.set(playerId, socketId)
+  }
+
+  addPlayer(playerId: string): Player {
+    return this.engine.addPlayer(playerId)
+  }
+
+  // Issue a new session token for a player, replacing any earlier one
+  createSession(playerId: string): string {
+    const token = createSessionToken()
+    this.sessionTokens.set(playerId, token)
+    return token
+  }
+
+  // Whether `token` is the player's current session token
+  hasSession(playerId: string, token: string) {
+    const expected = this.sessionTokens.get(playerId)
+    return expected !== undefined && sessionTokensMatch(expected, token)
+  }
+
+  getPlayer(playerId: string | undefined): Player | undefined {
+    return this.engine.getPlayer(playerId)
+  }
+
+  deactivatePlayer(playerId: string) {
+    this.engine.deactivatePlayer(playerId)
+  }
+
+  // Set a player's nickname, cleaned up and filtered. Returns the name they got, or null if none was left.
+  renamePlayer(playerId: string, name: string): string | null {
+    const cleaned = cleanName(name)
+    if (cleaned) {
+      this.engine.renamePlayer(playerId, cleaned)
+    }
+    return cleaned
+  }
+
+  reactivatePlayer(playerId: string) {
+    this.engine.reactivatePlayer(playerId)
+  }
+
+  removePlayer(playerId: string) {
+    this.engine.removePlayer(playerId)
+    this.playerSockets.delete(playerId)
+    this.sessionTokens.delete(playerId)
+    this.chatLimiter.forget(playerId)
+  }
+
+  // Queue a gameplay input to be applied on the next tick
+  queueInput(playerId: string, input: PlayerInput) {
+    this.engine.queueInput(playerId, input)
+  }
+
+  // Chat
+
+  // Send a player's message to the whole room, spectators included, or only to their team
+  sendChat(playerId: string, channel: ChatChannel, text: string): ChatResult {
+    const player = this.getPlayer(playerId)
+    if (!player) return 'no_player'
+
+    const cleaned = cleanChatText(text)
+    if (!cleaned) return 'empty'
+    if (!this.chatLimiter.tryConsume(playerId)) return 'rate_limited'
+
+    this.chatSeq++
+    const message = { id: this.chatSeq, channel, fromId: playerId, name: player.name, team: player.team, text: cleaned }
+    if (channel === 'all') {
+      this.emit('chat', message)
+    } else {
+      Object.values(this.gameState.players)
+        .filter(teammate => teammate.team === player.team)
+        .forEach(teammate => this.emitToPlayer(teammate.id, 'chat', message))
+    }
+    return 'sent'
+  }
+
+  // Admin controls - everyone in the room is told about each one
+
+  private announce(action: AdminAction, message: string, playerId?: string) {
+    console.log(`[${this.id}] Admin: ${message}`)
+    this.emit('adminAction', { action, playerId, message })
+  }
+
+  // Remove a player from the match and disconnect them
+  kickPlayer(playerId: string): AdminResult {
+    const player = this.getPlayer(playerId)
+    if (!player) return 'no_such_player'
+
+    // Tell them before their socket goes
+    this.announce('kick', `${player.name} was removed from the match`, playerId)
+    const socketId = this.playerSockets.get(playerId)
+    this.removePlayer(playerId)
+    if (socketId) {
+      this.io.in(socketId).disconnectSockets(true)
+    }
+    return 'done'
+  }
+
+  movePlayer(playerId: string, team: Team, role: Role): AdminResult {
+    const result = this.engine.moveToSlot(playerId, team, role)
+    if (result !== 'moved') return result
+
+    const player = this.getPlayer(playerId)
+    this.announce('moveSlot', `${player?.name} was moved to ${role} on the ${team} team`, playerId)
+    return 'done'
+  }
+
+  setPaused(paused: boolean): AdminResult {
+    if (!this.engine.setPaused(paused)) return 'unchanged'
+
+    this.announce(paused ? 'pause' : 'resume', paused ? 'The match is paused' : 'The match has resumed')
+    return 'done'
+  }
+
+  // Start a new series from the lobby, with everyone keeping their slot
+  resetMatch(): AdminResult {
+    this.engine.resetToLobby()
+    this.announce('reset', 'The match was reset')
+    return 'done'
+  }
+
+  // Award the game in progress to a team
+  endMatch(winner: Team): AdminResult {
+    if (this.gameState.status !== 'playing') return 'not_playing'
+
+    this.engine.endGame(winner, 'admin')
+    this.announce('endGame', `The game was awarded to the ${winner} team`)
+    return 'done'
+  }
+
+  updateRules(changes: Partial<MatchRules>): AdminResult {
+    this.engine.updateRules(changes)
+    const summary = Object.entries(changes).map(([rule, value]) => `${rule} ${value}`).join(', ')
+    this.announce('updateRules', `Rules changed: ${summary}`)
+    return 'done'
+  }
+
+  // Simulation loop
+
+  // Run however many fixed steps have accumulated since the last call
+  private runTicks() {
+    const now = Date.now()
+    this.accumulator += (now - this.lastTickAt) / 1000
+    this.lastTickAt = now
+
+    let steps = 0
+    while (this.accumulator >= TICK_DT && steps < MAX_CATCH_UP_TICKS) {
+      const startedAt = performance.now()
+      this.engine.step(TICK_DT)
+      tickDuration.observe((performance.now() - startedAt) / 1000)
+      this.accumulator -= TICK_DT
+      steps++
+    }
+    if (steps === MAX_CATCH_UP_TICKS) {
+      this.accumulator = 0
+    }
+
+    if (steps > 0 && (this.engine.takeDirty() || this.farRefreshDue())) {
+      this.sendState()
+    }
+  }
+
+  // A socket is due the position of a distant player it only has an old one for
+  private farRefreshDue() {
+    const { tick } = this.engine
+    return [...this.syncs.values()].some(sync => sync.view.due(tick))
+  }
+
+  // Timers are tracked per room so that disposing a room cancels them all
+
+  setTimeout(callback: () => void, delay: number) {
+    const timeout = setTimeout(() => {
+      this.timeouts.delete(timeout)
+      callback()
+    }, delay)
+    this.timeouts.add(timeout)
+    return timeout
+  }
+
+  setInterval(callback: () => void, delay: number) {
+    const interval = setInterval(callback, delay)
+    this.intervals.add(interval)
+    return interval
+  }
+
+  dispose() {
+    this.timeouts.forEach(clearTimeout)
+    this.intervals.forEach(clearInterval)
+    this.timeouts.clear()
+    this.intervals.clear()
+    this.members.clear()
+    this.syncs.clear()
+    this.playerSockets.clear()
+    this.sessionTokens.clear()
+  }
+}
@@ -0,0 +1,59 @@
+import { BotSettings, DEFAULT_BOT_SETTINGS } from './game/bots'
+import { DEFAULT_RULES, RULE_PRESETS } from './game/rules'
+import { Room } from './room'
+import { GameServer, MatchRules, RulePreset } from './types'
+
+// Room IDs are user supplied, so keep them short and URL friendly
+const ROOM_ID_PATTERN = /^[a-zA-Z0-9_-]{1,32}$/
+
+export const isValidRoomId = (roomId: unknown): roomId is string =>
+  typeof roomId === 'string' && ROOM_ID_PATTERN.test(roomId)
+
+/**
+ * Keeps track of every live room on this server process.
+ *
+ * Rooms are created lazily the first time a socket asks to join them and are
+ * disposed as soon as they have neither subscribed sockets nor players.
+ */
+export class RoomManager {
+  private rooms = new Map<string, Room>()
+  private io: GameServer
+  private botSettings: BotSettings
+  // Rules for rooms created without a preset
+  private defaultRules: MatchRules
+
+  constructor(io: GameServer, botSettings: BotSettings = DEFAULT_BOT_SETTINGS, defaultRules: MatchRules = DEFAULT_RULES) {
+    this.io = io
+    this.botSettings = botSettings
+    this.defaultRules = defaultRules
+  }
+
+  get(roomId: string | undefined): Room | undefined {
+    return roomId ? this.rooms.get(roomId) : undefined
+  }
+
+  // The preset only matters to the socket that creates the room - later joiners play by its rules
+  getOrCreate(roomId: string, preset?: RulePreset): Room {
+    let room = this.rooms.get(roomId)
+    if (!room) {
+      const rules = preset ? RULE_PRESETS[preset] : this.defaultRules
+      room = new Room(roomId, this.io, this.botSettings, rules)
+      this.rooms.set(roomId, room)
+      console.log(`Room ${roomId} created with ${rules.preset} rules`)
+    }
+    return room
+  }
+
+  // Dispose the room if nobody is left in it
+  releaseIfEmpty(room: Room) {
+    if (room.isEmpty() && this.rooms.get(room.id) === room) {
+      room.dispose()
+      this.rooms.delete(room.id)
+      console.log(`Room ${room.id} closed`)
+    }
+  }
+
+  list(): Room[] {
+    return Array.from(this.rooms.values())
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { MAX_RECONNECT_FAILURES, RECONNECT_FAILURE_WINDOW, ReconnectLimiter, createSessionToken, sessionTokensMatch } from './sessions'
+
+describe('session tokens', () => {
+  it('are unique and only match themselves', () => {
+    const token = createSessionToken()
+    const other = createSessionToken()
+
+    assert.notEqual(token, other)
+    assert.equal(sessionTokensMatch(token, token), true)
+    assert.equal(sessionTokensMatch(token, other), false)
+    assert.equal(sessionTokensMatch(token, token.slice(1)), false)
+    assert.equal(sessionTokensMatch(token, ''), false)
+  })
+})
+
+describe('ReconnectLimiter', () => {
+  it('locks an address out after too many failures', () => {
+    const limiter = new ReconnectLimiter()
+    for (let i = 0; i < MAX_RECONNECT_FAILURES - 1; i++) {
+      limiter.recordFailure('a', 1000)
+    }
+    assert.equal(limiter.isLimited('a', 1000), false)
+
+    limiter.recordFailure('a', 1000)
+    assert.equal(limiter.isLimited('a', 1000), true)
+    assert.equal(limiter.isLimited('b', 1000), false)
+  })
+
+  it('forgets failures once the window passes', () => {
+    const limiter = new ReconnectLimiter()
+    for (let i = 0; i < MAX_RECONNECT_FAILURES; i++) {
+      limiter.recordFailure('a', 1000)
+    }
+
+    assert.equal(limiter.isLimited('a', 1000 + RECONNECT_FAILURE_WINDOW - 1), true)
+    assert.equal(limiter.isLimited('a', 1000 + RECONNECT_FAILURE_WINDOW), false)
+  })
+
+  it('forgets addresses that never try again', () => {
+    const limiter = new ReconnectLimiter()
+    limiter.recordFailure('a', 1000)
+    limiter.recordFailure('b', 1000)
+    assert.equal(limiter.size, 2)
+
+    limiter.isLimited('c', 1000 + RECONNECT_FAILURE_WINDOW * 2)
+    assert.equal(limiter.size, 0)
+  })
+})
@@ -0,0 +1,64 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+
+// Session tokens are 32 random bytes, base64url encoded
+const TOKEN_BYTES = 32
+
+// A client that fails this many reconnects within the window is locked out until it passes
+export const MAX_RECONNECT_FAILURES = 5
+export const RECONNECT_FAILURE_WINDOW = 60 * 1000 // 1 minute
+
+// The secret a client needs to take its player back after a disconnect.
+// Player IDs are public - everyone sees them in the game state - so they can't double as one.
+export const createSessionToken = () => randomBytes(TOKEN_BYTES).toString('base64url')
+
+// Compare tokens in constant time. Hashing first makes both sides the same
+// length, so not even the length of the real token leaks.
+export const sessionTokensMatch = (expected: string, actual: string) =>
+  timingSafeEqual(
+    createHash('sha256').update(expected).digest(),
+    createHash('sha256').update(actual).digest()
+  )
+
+/**
+ * Counts failed reconnection attempts per client address.
+ *
+ * Guessing a token is hopeless anyway, but limiting attempts keeps a client
+ * from hammering the server with them. Failures older than the window are
+ * forgotten, including those of addresses that never try again.
+ */
+export class ReconnectLimiter {
+  private failures = new Map<string, number[]>()
+  private lastPrunedAt = 0
+
+  // Addresses with failures inside the window
+  get size() {
+    return this.failures.size
+  }
+
+  // Drop every address whose failures have all expired, at most once a window
+  private prune(now: number) {
+    if (now - this.lastPrunedAt < RECONNECT_FAILURE_WINDOW) return
+    this.lastPrunedAt = now
+    this.failures.forEach((_, key) => this.recentFailures(key, now))
+  }
+
+  private recentFailures(key: string, now: number) {
+    const recent = (this.failures.get(key) ?? []).filter(time => now - time < RECONNECT_FAILURE_WINDOW)
+    if (recent.length > 0) {
+      this.failures.set(key, recent)
+    } else {
+      this.failures.delete(key)
+    }
+    return recent
+  }
+
+  isLimited(key: string, now = Date.now()) {
+    this.prune(now)
+    return this.recentFailures(key, now).length >= MAX_RECONNECT_FAILURES
+  }
+
+  recordFailure(key: string, now = Date.now()) {
+    this.prune(now)
+    this.failures.set(key, [...this.recentFailures(key, now), now])
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { decode as referenceDecode, encode as referenceEncode } from '@msgpack/msgpack'
+import { GameEngine } from './engine'
+import { decode, encode } from '../../shared/msgpack'
+import { applyDelta, decodeFrame, dequantizeState, diffState, encodeFrame, quantizeState } from '../../shared/stateSync'
+
+const createEngine = () => {
+  const engine = new GameEngine({
+    id: 'test',
+    botSettings: { teamSize: 0, difficulty: 'normal' },
+    hooks: { broadcast: () => {}, sendToPlayer: () => {}, replayFinished: () => {}, log: () => {} }
+  })
+  engine.addPlayer('a')
+  engine.addPlayer('b')
+  return engine
+}
+
+// A copy of the engine's state as it stands now, so later changes don't reach it
+const takeState = (engine: GameEngine) => quantizeState(structuredClone(engine.gameState))
+
+describe('MessagePack', () => {
+  const values = [
+    null, true, false, 0, 127, 128, 255, 256, 65535, 65536, 0xffffffff, -1, -32, -33, -128, -129, -32768, -32769,
+    -0x80000000, 0.5, -1234.5678, '', 'bee', 'é🐝'.repeat(20), 'x'.repeat(300), 'y'.repeat(70000),
+    [], [1, [2, [3]]], Array.from({ length: 20 }, (_, i) => i), {}, { a: 1, b: { c: 'd' } },
+    Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`key${i}`, i]))
+  ]
+
+  it('round-trips JSON-like values', () => {
+    [...values, 2 ** 40, -(2 ** 40)].forEach(value => assert.deepEqual(decode(encode(value)), value))
+  })
+
+  it('packs values the way @msgpack/msgpack does', () => {
+    values.forEach(value => {
+      const packed = encode(value)
+      assert.deepEqual(packed, referenceEncode(value))
+      assert.deepEqual(referenceDecode(packed), value)
+      assert.deepEqual(decode(referenceEncode(value)), value)
+    })
+    assert.deepEqual(encode({ a: 1, b: undefined }), referenceEncode({ a: 1, b: undefined }, { ignoreUndefined: true }))
+    // Whole numbers too big for 32 bits go out as floats here, but still read back the same
+    assert.equal(referenceDecode(encode(2 ** 40)), 2 ** 40)
+    assert.deepEqual(decode(referenceEncode(0.25, { forceFloat32: true })), 0.25)
+  })
+
+  it('packs small numbers into single bytes', () => {
+    assert.deepEqual([...encode(5)], [0x05])
+    assert.deepEqual([...encode(-5)], [0xfb])
+    assert.deepEqual([...encode([1, 2])], [0x92, 0x01, 0x02])
+  })
+
+  it('leaves out undefined fields and rejects data cut short', () => {
+    assert.deepEqual(decode(encode({ a: 1, b: undefined })), { a: 1 })
+    assert.throws(() => decode(encode('bee').subarray(0, 2)), /ends early/)
+  })
+
+  it("doesn't let a __proto__ key change the decoded object's prototype", () => {
+    const bytes = new Uint8Array([0x81, 0xa9, ...new TextEncoder().encode('__proto__'), 0x80])
+    const decoded = decode(bytes) as Record<string, unknown>
+    assert.equal(Object.getPrototypeOf(decoded), Object.prototype)
+    assert.deepEqual(Object.keys(decoded), ['__proto__'])
+  })
+})
+
+describe('state sync', () => {
+  it('rounds positions to centimetres and rotations to milliradians', () => {
+    const engine = createEngine()
+    const player = engine.getPlayer('a')!
+    player.position = [1.23456, -2.5, 3]
+    player.rotation = [0, 1.57079, 0]
+
+    const synced = dequantizeState(quantizeState(engine.gameState)).players.a
+    assert.deepEqual(synced.position, [1.23, -2.5, 3])
+    assert.deepEqual(synced.rotation, [0, 1.571, 0])
+  })
+
+  it('rebuilds the whole state from a frame without a baseline', () => {
+    const state = takeState(createEngine())
+    const frame = decodeFrame(encodeFrame({ seq: 1, tick: 0, baseSeq: 0, delta: diffState(null, state) }))
+    assert.deepEqual(applyDelta(null, frame.delta), state)
+  })
+
+  it('sends only what changed since the baseline', () => {
+    const engine = createEngine()
+    const base = takeState(engine)
+    assert.ok(Object.values(diffState(base, takeState(engine))).every(part => part === undefined))
+
+    engine.getPlayer('a')!.position[0] += 1
+    engine.gameState.blueScore = 3
+    engine.removePlayer('b')
+    const next = takeState(engine)
+
+    const delta = diffState(base, next)
+    assert.deepEqual(delta.fields, { blueScore: 3 })
+    assert.deepEqual(delta.players, { changed: { a: { position: next.players.a.position } }, removed: ['b'] })
+    assert.equal(delta.berries, undefined)
+    assert.deepEqual(applyDelta(base, delta), next)
+  })
+
+  it('keeps unchanged entities as they were', () => {
+    const engine = createEngine()
+    const base = takeState(engine)
+    engine.getPlayer('a')!.position[1] += 1
+
+    const next = applyDelta(base, diffState(base, takeState(engine)))
+    assert.equal(next.players.b, base.players.b)
+    assert.notEqual(next.players.a, base.players.a)
+  })
+
+  it('packs a moving player into far fewer bytes than the JSON state', () => {
+    const engine = createEngine()
+    const base = takeState(engine)
+    engine.getPlayer('a')!.position = [4.2, 6.1, -3.3]
+    const next = takeState(engine)
+
+    const frame = encodeFrame({ seq: 2, tick: 1, baseSeq: 1, delta: diffState(base, next) })
+    assert.ok(frame.byteLength * 20 < JSON.stringify(engine.gameState).length, `frame was ${frame.byteLength} bytes`)
+  })
+})
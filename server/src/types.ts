@@ -0,0 +1,33 @@
+import { Server, Socket } from 'socket.io'
+import { ClientToServerEvents, Role, ServerToClientEvents, Team, Vector3Tuple } from '../../shared/protocol'
+
+// Everything that goes over the wire is defined in the protocol module shared with the client
+export * from '../../shared/protocol'
+
+// Gameplay inputs are queued by the socket handlers and applied at the start of the next tick
+export type PlayerInput =
+  | { type: 'move', position: Vector3Tuple, rotation: Vector3Tuple }
+  | { type: 'collectBerry', berryId: string }
+  | { type: 'depositBerry' }
+  | { type: 'captureGate', gateId: string }
+  | { type: 'enterGate', gateId: string }
+  | { type: 'mountSnail' }
+  | { type: 'dismountSnail' }
+  | { type: 'attack' }
+  | { type: 'setReady', ready: boolean }
+  | { type: 'voteRematch', accept: boolean }
+  | { type: 'claimSlot', team: Team, role: Role }
+  | { type: 'requestSwap', playerId: string }
+  | { type: 'answerSwap', playerId: string, accept: boolean }
+
+export type InterServerEvents = Record<string, never>
+
+export interface SocketData {
+  roomId?: string
+  playerId?: string
+  // Set while the socket watches its room instead of playing
+  spectator?: boolean
+}
+
+export type GameServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+export type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
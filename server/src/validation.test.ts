@@ -0,0 +1,13 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { validatePayload } from './validation'
+
+describe('validatePayload', () => {
+  it('only lets players claim queen or worker slots', () => {
+    assert.deepEqual(validatePayload('claimSlot', { team: 'gold', role: 'worker' }), { ok: true, value: { team: 'gold', role: 'worker' } })
+
+    const soldier = validatePayload('claimSlot', { team: 'gold', role: 'soldier' })
+    assert.equal(soldier.ok, false)
+    assert.equal(!soldier.ok && soldier.code, 'invalid_value')
+  })
+})
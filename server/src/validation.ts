@@ -0,0 +1,191 @@
+import { MAX_CHAT_LENGTH, MAX_NAME_LENGTH } from './chat'
+import { isRulePreset } from './game/rules'
+import { isValidRoomId } from './roomManager'
+import { CLAIMABLE_ROLES, ChatChannel, ClientEvent, RULE_PRESET_NAMES, ClientPayload, ErrorCode, Role, Team, Vector3Tuple } from './types'
+
+export type ValidationResult<T> =
+  | { ok: true, value: T }
+  | { ok: false, code: ErrorCode, message: string }
+
+type Parser<T> = (data: unknown) => ValidationResult<T>
+
+// Player, berry and gate IDs are never longer than a UUID
+const MAX_ID_LENGTH = 64
+
+// Session tokens are 43 characters; anything much longer isn't one
+const MAX_TOKEN_LENGTH = 128
+
+const ok = <T>(value: T): ValidationResult<T> => ({ ok: true, value })
+const fail = <T>(code: ErrorCode, message: string): ValidationResult<T> => ({ ok: false, code, message })
+
+const isRecord = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null && !Array.isArray(data)
+
+const isNumberTriple = (value: unknown): value is Vector3Tuple =>
+  Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number')
+
+const isId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH
+
+const TEAMS: Team[] = ['blue', 'gold']
+const ROLES: Role[] = ['queen', 'worker', 'soldier']
+
+const CHAT_CHANNELS: ChatChannel[] = ['all', 'team']
+
+// Text a player typed, before it's cleaned up
+const isText = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= maxLength
+
+export const isTeam = (value: unknown): value is Team => TEAMS.includes(value as Team)
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role)
+
+// Events that carry no data
+const noPayload: Parser<undefined> = (data) =>
+  data === undefined ? ok(undefined) : fail('malformed_payload', 'expected no payload')
+
+// Events whose only field is a string ID
+const idPayload = <K extends string>(key: K): Parser<Record<K, string>> => (data) => {
+  if (!isRecord(data) || typeof data[key] !== 'string') {
+    return fail('malformed_payload', `expected { ${key}: string }`)
+  }
+  if (!isId(data[key])) {
+    return fail('invalid_value', `${key} must be 1-${MAX_ID_LENGTH} characters`)
+  }
+  return ok({ [key]: data[key] } as Record<K, string>)
+}
+
+// Events whose only field is a yes/no choice
+const flagPayload = <K extends string>(key: K): Parser<Record<K, boolean>> => (data) => {
+  if (!isRecord(data) || typeof data[key] !== 'boolean') {
+    return fail('malformed_payload', `expected { ${key}: boolean }`)
+  }
+  return ok({ [key]: data[key] } as Record<K, boolean>)
+}
+
+const parsers: { [E in ClientEvent]: Parser<ClientPayload<E>> } = {
+  joinRoom: (data) => {
+    if (!isRecord(data) || typeof data.roomId !== 'string') {
+      return fail('malformed_payload', 'expected { roomId: string }')
+    }
+    if (!isValidRoomId(data.roomId)) {
+      return fail('invalid_value', 'roomId must be 1-32 letters, digits, - or _')
+    }
+    if (data.preset !== undefined && !isRulePreset(data.preset)) {
+      return fail('invalid_value', `preset must be one of ${RULE_PRESET_NAMES.join(', ')}`)
+    }
+    return ok(data.preset === undefined ? { roomId: data.roomId } : { roomId: data.roomId, preset: data.preset })
+  },
+
+  playerUpdate: (data) => {
+    if (!isRecord(data) || !isNumberTriple(data.position) || !isNumberTriple(data.rotation)) {
+      return fail('malformed_payload', 'expected { position: [x, y, z], rotation: [x, y, z] }')
+    }
+    if (![...data.position, ...data.rotation].every(Number.isFinite)) {
+      return fail('invalid_value', 'position and rotation must be finite')
+    }
+    return ok({ position: [...data.position], rotation: [...data.rotation] })
+  },
+
+  ackState: (data) => {
+    if (!isRecord(data) || typeof data.seq !== 'number') {
+      return fail('malformed_payload', 'expected { seq: number }')
+    }
+    if (!Number.isInteger(data.seq) || data.seq < 1) {
+      return fail('invalid_value', 'seq must be a positive whole number')
+    }
+    return ok({ seq: data.seq })
+  },
+
+  reconnectPlayer: (data) => {
+    if (!isRecord(data) || typeof data.playerId !== 'string' || typeof data.sessionToken !== 'string') {
+      return fail('malformed_payload', 'expected { playerId: string, sessionToken: string }')
+    }
+    if (!isId(data.playerId)) {
+      return fail('invalid_value', `playerId must be 1-${MAX_ID_LENGTH} characters`)
+    }
+    if (data.sessionToken.length === 0 || data.sessionToken.length > MAX_TOKEN_LENGTH) {
+      return fail('invalid_value', `sessionToken must be 1-${MAX_TOKEN_LENGTH} characters`)
+    }
+    return ok({ playerId: data.playerId, sessionToken: data.sessionToken })
+  },
+
+  claimSlot: (data) => {
+    if (!isRecord(data) || typeof data.team !== 'string' || typeof data.role !== 'string') {
+      return fail('malformed_payload', 'expected { team: string, role: string }')
+    }
+    if (!isTeam(data.team) || !CLAIMABLE_ROLES.includes(data.role as Role)) {
+      return fail('invalid_value', `team must be one of ${TEAMS.join(', ')} and role one of ${CLAIMABLE_ROLES.join(', ')}`)
+    }
+    return ok({ team: data.team, role: data.role as Role })
+  },
+
+  answerSwap: (data) => {
+    if (!isRecord(data) || typeof data.playerId !== 'string' || typeof data.accept !== 'boolean') {
+      return fail('malformed_payload', 'expected { playerId: string, accept: boolean }')
+    }
+    if (!isId(data.playerId)) {
+      return fail('invalid_value', `playerId must be 1-${MAX_ID_LENGTH} characters`)
+    }
+    return ok({ playerId: data.playerId, accept: data.accept })
+  },
+
+  setName: (data) => {
+    if (!isRecord(data) || typeof data.name !== 'string') {
+      return fail('malformed_payload', 'expected { name: string }')
+    }
+    if (!isText(data.name, MAX_NAME_LENGTH)) {
+      return fail('invalid_value', `name must be 1-${MAX_NAME_LENGTH} characters`)
+    }
+    return ok({ name: data.name })
+  },
+
+  chat: (data) => {
+    if (!isRecord(data) || typeof data.channel !== 'string' || typeof data.text !== 'string') {
+      return fail('malformed_payload', 'expected { channel: string, text: string }')
+    }
+    if (!CHAT_CHANNELS.includes(data.channel as ChatChannel)) {
+      return fail('invalid_value', `channel must be one of ${CHAT_CHANNELS.join(', ')}`)
+    }
+    if (!isText(data.text, MAX_CHAT_LENGTH)) {
+      return fail('invalid_value', `text must be 1-${MAX_CHAT_LENGTH} characters`)
+    }
+    return ok({ channel: data.channel as ChatChannel, text: data.text })
+  },
+
+  collectBerry: idPayload('berryId'),
+  captureGate: idPayload('gateId'),
+  enterGate: idPayload('gateId'),
+  requestSwap: idPayload('playerId'),
+
+  setReady: flagPayload('ready'),
+  voteRematch: flagPayload('accept'),
+
+  joinGame: noPayload,
+  spectate: noPayload,
+  leaveGame: noPayload,
+  requestResync: noPayload,
+  depositBerry: noPayload,
+  mountSnail: noPayload,
+  dismountSnail: noPayload,
+  attack: noPayload
+}
+
+// Number of rejected messages per event since the server started
+const rejectedCounts = new Map<ClientEvent, number>()
+
+/**
+ * Check an inbound message against the shape its event expects.
+ *
+ * Only the known fields are copied into the returned value, so nothing a
+ * client adds to a payload can leak into the game state.
+ */
+export const validatePayload = <E extends ClientEvent>(event: E, data: unknown): ValidationResult<ClientPayload<E>> => {
+  const result = parsers[event](data)
+  if (!result.ok) {
+    rejectedCounts.set(event, (rejectedCounts.get(event) ?? 0) + 1)
+  }
+  return result
+}
+
+export const getRejectedCounts = (): Partial<Record<ClientEvent, number>> =>
+  Object.fromEntries(rejectedCounts)
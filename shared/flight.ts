@@ -0,0 +1,48 @@
+import { Role } from './protocol'
+
+/**
+ * Flight model shared by the client, which flies the local bee, and the
+ * server, which checks every reported move against what this model allows.
+ */
+
+// Flight dynamics settings
+export const FLIGHT_SETTINGS = {
+  FORWARD_SPEED: 10,
+  TURN_SPEED: 3.5,
+  TILT_FACTOR: 0.4,
+  ROLL_FACTOR: 0.6,
+  PITCH_FACTOR: 0.4,
+  ASCEND_SPEED: 8,
+  DESCEND_SPEED: 6,
+  HOVER_AMPLITUDE: 0.1,
+  HOVER_FREQUENCY: 2,
+  MAX_VELOCITY: 20,
+  MAX_VERTICAL_VELOCITY: 10,
+  DRAG_FACTOR: 0.95,
+  LEVELING_FACTOR: 0.08, // How quickly the bee levels out when not turning
+  WING_FLAP_SPEED: 30
+}
+
+// Top horizontal speed of each role - queens are the fastest fliers, workers the slowest
+export const ROLE_MAX_VELOCITY: Record<Role, number> = {
+  queen: FLIGHT_SETTINGS.MAX_VELOCITY,
+  soldier: 18,
+  worker: 15
+}
+
+// The local bee's rigid body
+export const BEE_BODY = {
+  mass: 1,
+  linearDamping: 1.5
+}
+
+// Play space enclosed by the invisible walls and floor in the client's Arena.
+// The client keeps its bee below maxY, where the walls end.
+export const ARENA_BOUNDS = {
+  minX: -99.5,
+  maxX: 99.5,
+  minY: 0,
+  maxY: 30,
+  minZ: -99.5,
+  maxZ: 99.5
+}
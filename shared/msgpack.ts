@@ -0,0 +1,268 @@
+/**
+ * A small MessagePack encoder and decoder.
+ *
+ * It covers the JSON-like values the game sends: null, booleans, numbers,
+ * strings, arrays and plain objects. Whole numbers are packed into the fewest
+ * bytes that hold them and any other number goes out as a 64-bit float.
+ * Object fields set to undefined are left out, as JSON.stringify does.
+ */
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+// A byte buffer that grows as values are written to it
+class Writer {
+  private bytes = new Uint8Array(256)
+  private view = new DataView(this.bytes.buffer)
+  private length = 0
+
+  // Make room for `size` more bytes and return where they start. This may
+  // swap in a bigger buffer, so claim before touching `bytes` or `view`.
+  private claim(size: number) {
+    if (this.length + size > this.bytes.length) {
+      let capacity = this.bytes.length * 2
+      while (capacity < this.length + size) capacity *= 2
+      const bytes = new Uint8Array(capacity)
+      bytes.set(this.bytes.subarray(0, this.length))
+      this.bytes = bytes
+      this.view = new DataView(bytes.buffer)
+    }
+    const offset = this.length
+    this.length += size
+    return offset
+  }
+
+  u8(value: number) {
+    const offset = this.claim(1)
+    this.view.setUint8(offset, value)
+  }
+
+  u16(value: number) {
+    const offset = this.claim(2)
+    this.view.setUint16(offset, value)
+  }
+
+  u32(value: number) {
+    const offset = this.claim(4)
+    this.view.setUint32(offset, value)
+  }
+
+  i8(value: number) {
+    const offset = this.claim(1)
+    this.view.setInt8(offset, value)
+  }
+
+  i16(value: number) {
+    const offset = this.claim(2)
+    this.view.setInt16(offset, value)
+  }
+
+  i32(value: number) {
+    const offset = this.claim(4)
+    this.view.setInt32(offset, value)
+  }
+
+  f64(value: number) {
+    const offset = this.claim(8)
+    this.view.setFloat64(offset, value)
+  }
+
+  bytesOf(value: Uint8Array) {
+    const offset = this.claim(value.length)
+    this.bytes.set(value, offset)
+  }
+
+  finish() {
+    return this.bytes.slice(0, this.length)
+  }
+}
+
+interface HeaderTypes {
+  // Short lengths are folded into the type byte
+  fix: number
+  fixMax: number
+  // Longer ones follow it. Only strings have a one-byte length.
+  u8?: number
+  u16: number
+  u32: number
+}
+
+const STRING_TYPES: HeaderTypes = { fix: 0xa0, fixMax: 0x1f, u8: 0xd9, u16: 0xda, u32: 0xdb }
+const ARRAY_TYPES: HeaderTypes = { fix: 0x90, fixMax: 0x0f, u16: 0xdc, u32: 0xdd }
+const MAP_TYPES: HeaderTypes = { fix: 0x80, fixMax: 0x0f, u16: 0xde, u32: 0xdf }
+
+// The type and length that start a string, array or map
+const writeHeader = (writer: Writer, length: number, types: HeaderTypes) => {
+  if (length <= types.fixMax) {
+    writer.u8(types.fix | length)
+  } else if (types.u8 !== undefined && length <= 0xff) {
+    writer.u8(types.u8)
+    writer.u8(length)
+  } else if (length <= 0xffff) {
+    writer.u8(types.u16)
+    writer.u16(length)
+  } else {
+    writer.u8(types.u32)
+    writer.u32(length)
+  }
+}
+
+const writeNumber = (writer: Writer, value: number) => {
+  if (!Number.isInteger(value) || value < -0x80000000 || value > 0xffffffff) {
+    writer.u8(0xcb)
+    writer.f64(value)
+  } else if (value >= 0) {
+    if (value <= 0x7f) {
+      writer.u8(value)
+    } else if (value <= 0xff) {
+      writer.u8(0xcc)
+      writer.u8(value)
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd)
+      writer.u16(value)
+    } else {
+      writer.u8(0xce)
+      writer.u32(value)
+    }
+  } else if (value >= -0x20) {
+    writer.i8(value)
+  } else if (value >= -0x80) {
+    writer.u8(0xd0)
+    writer.i8(value)
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1)
+    writer.i16(value)
+  } else {
+    writer.u8(0xd2)
+    writer.i32(value)
+  }
+}
+
+const writeValue = (writer: Writer, value: unknown) => {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0)
+  } else if (typeof value === 'boolean') {
+    writer.u8(value ? 0xc3 : 0xc2)
+  } else if (typeof value === 'number') {
+    writeNumber(writer, value)
+  } else if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value)
+    writeHeader(writer, bytes.length, STRING_TYPES)
+    writer.bytesOf(bytes)
+  } else if (Array.isArray(value)) {
+    writeHeader(writer, value.length, ARRAY_TYPES)
+    value.forEach(item => writeValue(writer, item))
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined)
+    writeHeader(writer, entries.length, MAP_TYPES)
+    entries.forEach(([key, item]) => {
+      writeValue(writer, key)
+      writeValue(writer, item)
+    })
+  } else {
+    throw new Error(`can't encode a ${typeof value}`)
+  }
+}
+
+export const encode = (value: unknown): Uint8Array => {
+  const writer = new Writer()
+  writeValue(writer, value)
+  return writer.finish()
+}
+
+// Reads values back out of a buffer, failing on anything cut short or not understood
+class Reader {
+  private bytes: Uint8Array
+  private view: DataView
+  private offset = 0
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  get done() {
+    return this.offset === this.bytes.length
+  }
+
+  // Move past `size` bytes and return where they start
+  private take(size: number) {
+    if (this.offset + size > this.bytes.length) {
+      throw new Error('MessagePack data ends early')
+    }
+    const offset = this.offset
+    this.offset += size
+    return offset
+  }
+
+  u8() { return this.view.getUint8(this.take(1)) }
+  u16() { return this.view.getUint16(this.take(2)) }
+  u32() { return this.view.getUint32(this.take(4)) }
+  i8() { return this.view.getInt8(this.take(1)) }
+  i16() { return this.view.getInt16(this.take(2)) }
+  i32() { return this.view.getInt32(this.take(4)) }
+  f32() { return this.view.getFloat32(this.take(4)) }
+  f64() { return this.view.getFloat64(this.take(8)) }
+
+  text(length: number) {
+    const start = this.take(length)
+    return textDecoder.decode(this.bytes.subarray(start, start + length))
+  }
+}
+
+const readArray = (reader: Reader, length: number) =>
+  Array.from({ length }, () => readValue(reader))
+
+const readMap = (reader: Reader, length: number) => {
+  const map: Record<string, unknown> = {}
+  for (let i = 0; i < length; i++) {
+    const key = readValue(reader)
+    if (typeof key !== 'string') {
+      throw new Error('MessagePack map keys must be strings')
+    }
+    // Define rather than assign, so a "__proto__" key can't swap the object's prototype
+    Object.defineProperty(map, key, { value: readValue(reader), enumerable: true, writable: true, configurable: true })
+  }
+  return map
+}
+
+const readValue = (reader: Reader): unknown => {
+  const type = reader.u8()
+
+  if (type <= 0x7f) return type
+  if (type >= 0xe0) return type - 0x100
+  if (type <= 0x8f) return readMap(reader, type & 0x0f)
+  if (type <= 0x9f) return readArray(reader, type & 0x0f)
+  if (type <= 0xbf) return reader.text(type & 0x1f)
+
+  switch (type) {
+    case 0xc0: return null
+    case 0xc2: return false
+    case 0xc3: return true
+    case 0xca: return reader.f32()
+    case 0xcb: return reader.f64()
+    case 0xcc: return reader.u8()
+    case 0xcd: return reader.u16()
+    case 0xce: return reader.u32()
+    case 0xd0: return reader.i8()
+    case 0xd1: return reader.i16()
+    case 0xd2: return reader.i32()
+    case 0xd9: return reader.text(reader.u8())
+    case 0xda: return reader.text(reader.u16())
+    case 0xdb: return reader.text(reader.u32())
+    case 0xdc: return readArray(reader, reader.u16())
+    case 0xdd: return readArray(reader, reader.u32())
+    case 0xde: return readMap(reader, reader.u16())
+    case 0xdf: return readMap(reader, reader.u32())
+    default: throw new Error(`unsupported MessagePack type 0x${type.toString(16)}`)
+  }
+}
+
+export const decode = (bytes: Uint8Array): unknown => {
+  const reader = new Reader(bytes)
+  const value = readValue(reader)
+  if (!reader.done) {
+    throw new Error('unexpected data after the MessagePack value')
+  }
+  return value
+}
@@ -0,0 +1,418 @@
+/**
+ * Wire protocol shared by the game server and the browser client.
+ *
+ * Everything that crosses the socket is described here: the game state the
+ * server broadcasts, the payload of every event in both directions and the
+ * protocol version both sides check when a socket connects. How the state
+ * itself is packed lives in stateSync.ts. Bump
+ * PROTOCOL_VERSION whenever a change here would break an older client.
+ */
+
+export const PROTOCOL_VERSION = 11
+
+// Sent by the client in the socket.io handshake (`auth`)
+export interface HandshakeAuth {
+  protocolVersion: number
+}
+
+// Connection error message for a client speaking a different protocol version.
+// The error's `data` carries the server's version.
+export const PROTOCOL_MISMATCH = 'protocol_mismatch'
+
+export interface ProtocolMismatchData {
+  serverVersion: number
+}
+
+// Game state
+
+export type Team = 'blue' | 'gold'
+export type Role = 'queen' | 'worker' | 'soldier'
+// Roles players can pick in the lobby - soldiers are only made at gates
+export const CLAIMABLE_ROLES: Role[] = ['queen', 'worker']
+export type Vector3Tuple = [number, number, number]
+
+// The end of the arena a team plays from. Teams swap sides between the games of a series.
+export type Side = 'left' | 'right'
+
+export interface Player {
+  id: string
+  // Nickname shown over the bee and in rosters and chat
+  name: string
+  position: Vector3Tuple
+  rotation: Vector3Tuple
+  team: Team
+  role: Role
+  isActive: boolean
+  // Dead players wait for their respawn timer before they can play again
+  isAlive: boolean
+  // Seconds until a dead player respawns, 0 while alive
+  respawnTime: number
+  // Ready to start the match, toggled in the lobby
+  isReady: boolean
+  // Played by the server to fill an empty slot
+  isBot: boolean
+}
+
+export type KillCause = 'combat' | 'snail'
+
+export interface Berry {
+  id: string
+  position: Vector3Tuple
+  // Worker currently carrying this berry, null while it sits in the field
+  carrierId: string | null
+}
+
+export interface Gate {
+  id: string
+  position: Vector3Tuple
+  // Team whose workers may use the gate, null until a queen captures it
+  team: Team | null
+  // Worker currently standing in the gate to become a soldier
+  occupantId: string | null
+  // Seconds the occupant has spent in the gate
+  useTime: number
+}
+
+export interface SnailState {
+  // Worker riding the snail toward their goal
+  riderId: string | null
+  // Enemy worker trying to knock the rider off
+  contesterId: string | null
+  // Seconds the current challenger has been contesting
+  contestTime: number
+  // Seconds left before the snail moves again after eating a worker
+  digestTime: number
+}
+
+// The map a game is played on
+export interface MapInfo {
+  id: string
+  name: string
+}
+
+// A best-of-N set of games between the same teams
+export interface SeriesState {
+  bestOf: number
+  // 1-based number of the game being played
+  gameNumber: number
+  // Games won by each team so far
+  wins: {
+    blue: number
+    gold: number
+  }
+  // Set once a team has won enough games
+  winner: Team | null
+  // Seconds until the next game starts, while between games
+  nextGameIn: number
+}
+
+// A player asking another to trade teams and roles, waiting for an answer
+export interface SwapRequest {
+  fromId: string
+  toId: string
+}
+
+// Named rule sets a room can be created with
+export type RulePreset = 'standard' | 'quick' | 'tournament' | 'practice'
+export const RULE_PRESET_NAMES: RulePreset[] = ['standard', 'quick', 'tournament', 'practice']
+
+// Tunable rules of a room's matches. Times are in seconds.
+export interface MatchRules {
+  // The preset these rules came from, or 'custom' once they've been changed
+  preset: RulePreset | 'custom'
+  berriesToWin: number
+  queenKillsToWin: number
+  // Games in a series, odd so a series can't tie. Takes effect with the next series.
+  seriesBestOf: number
+  // Track percent per second the snail moves while ridden
+  snailSpeed: number
+  playerRespawnDelay: number
+  queenRespawnDelay: number
+  // Countdown from everyone being ready to play
+  startCountdown: number
+  // Pause between the games of a series
+  nextGameDelay: number
+  // How long a disconnected player keeps their place
+  disconnectGrace: number
+  // How long a finished series waits for a rematch before the room goes back to the lobby
+  endedResetDelay: number
+}
+
+export interface GameState {
+  // 'waiting' is the lobby, 'starting' counts down to play
+  status: 'waiting' | 'starting' | 'playing' | 'ended'
+  // Seconds left before play begins while starting, 0 otherwise
+  countdown: number
+  // Seconds of play since the match started
+  matchTime: number
+  players: Record<string, Player>
+  blueScore: number
+  goldScore: number
+  blueQueenAlive: boolean
+  goldQueenAlive: boolean
+  snailPosition: number
+  snail: SnailState
+  berries: Record<string, Berry>
+  gates: Record<string, Gate>
+  berryCount: {
+    blue: number
+    gold: number
+  }
+  // Set once the match has ended
+  result: MatchResult | null
+  // Players who voted for a rematch after the series ended
+  rematchVotes: string[]
+  // Open slot swap requests in the lobby
+  swapRequests: SwapRequest[]
+  // Sockets watching the room without playing
+  spectatorCount: number
+  map: MapInfo
+  sides: Record<Team, Side>
+  series: SeriesState
+  rules: MatchRules
+  // An admin froze the match - nothing moves until they resume it
+  paused: boolean
+}
+
+// 'admin' is a match an admin ended with a winner of their choosing
+export type WinReason = 'economic' | 'military' | 'snail' | 'admin'
+
+// What a player did over one match
+export interface PlayerMatchStats {
+  kills: number
+  queenKills: number
+  deaths: number
+  berriesDeposited: number
+  // Track percent the player pushed the snail toward their goal
+  snailDistance: number
+}
+
+export interface PlayerSummary extends PlayerMatchStats {
+  playerId: string
+  name: string
+  team: Team
+  role: Role
+}
+
+// A standout stat shown on the game-over screen, e.g. most kills
+export interface MatchHighlight {
+  title: string
+  playerId: string
+  value: number
+}
+
+// Final standings of an ended match
+export interface MatchResult {
+  winner: Team
+  reason: WinReason
+  matchTime: number
+  berryCount: {
+    blue: number
+    gold: number
+  }
+  // Enemy queens each team killed
+  queenKills: {
+    blue: number
+    gold: number
+  }
+  snailPosition: number
+  players: PlayerSummary[]
+  highlights: MatchHighlight[]
+}
+
+// Why an inbound message was rejected
+export type ErrorCode = 'malformed_payload' | 'invalid_value' | 'invalid_session' | 'rate_limited'
+
+// Event payloads
+
+export interface WelcomePayload {
+  protocolVersion: number
+}
+
+export interface RoomJoinedPayload {
+  roomId: string
+}
+
+export interface PlayerAssignedPayload {
+  playerId: string
+  team: Team
+  role: Role
+  // Secret proving this client owns the player, needed to reconnect. Only
+  // ever sent to the player's own socket, unlike the public playerId.
+  sessionToken: string
+}
+
+export interface GameOverPayload {
+  winner: Team
+  reason: WinReason
+}
+
+export interface SeriesOverPayload {
+  winner: Team
+  wins: {
+    blue: number
+    gold: number
+  }
+  bestOf: number
+}
+
+export interface SnailAtePayload {
+  riderId: string
+  victimId: string
+}
+
+export interface PlayerKilledPayload {
+  attackerId: string
+  victimId: string
+  victimRole: Role
+  cause: KillCause
+}
+
+export interface RoleChangedPayload {
+  playerId: string
+  role: Role
+}
+
+export interface PlayerRespawnedPayload {
+  playerId: string
+  position: Vector3Tuple
+}
+
+export interface PositionCorrectionPayload {
+  position: Vector3Tuple
+}
+
+export interface ErrorPayload {
+  code: ErrorCode
+  event: string
+  message: string
+}
+
+export interface SetReadyPayload {
+  ready: boolean
+}
+
+export interface VoteRematchPayload {
+  accept: boolean
+}
+
+export interface ReconnectPlayerPayload {
+  playerId: string
+  sessionToken: string
+}
+
+export interface ClaimSlotPayload {
+  team: Team
+  role: Role
+}
+
+export interface AnswerSwapPayload {
+  // Player who asked for the swap
+  playerId: string
+  accept: boolean
+}
+
+export type ChatChannel = 'all' | 'team'
+
+export interface ChatSendPayload {
+  channel: ChatChannel
+  text: string
+}
+
+export interface ChatMessage {
+  id: number
+  channel: ChatChannel
+  fromId: string
+  // Sender's nickname and team when they sent it
+  name: string
+  team: Team
+  text: string
+}
+
+export interface JoinRoomPayload {
+  roomId: string
+  preset?: RulePreset
+}
+
+export type AdminAction = 'kick' | 'moveSlot' | 'pause' | 'resume' | 'reset' | 'endGame' | 'updateRules'
+
+// Tells a room what an admin just did to it
+export interface AdminActionPayload {
+  action: AdminAction
+  // The player the action was about, if any
+  playerId?: string
+  message: string
+}
+
+export interface AckStatePayload {
+  // The newest state frame the client has applied
+  seq: number
+}
+
+export interface PlayerUpdatePayload {
+  position: Vector3Tuple
+  rotation: Vector3Tuple
+}
+
+// Events
+
+export interface ServerToClientEvents {
+  // Sent once a socket is accepted, so the client can check the version too
+  welcome: (data: WelcomePayload) => void
+  roomJoined: (data: RoomJoinedPayload) => void
+  // A MessagePack-encoded StateFrame (see stateSync.ts), sent whenever the state changes
+  stateSync: (frame: Uint8Array | ArrayBuffer) => void
+  playerAssigned: (data: PlayerAssignedPayload) => void
+  // Confirms a spectate request - the socket gets the state but has no player
+  spectating: () => void
+  gameOver: (data: GameOverPayload) => void
+  seriesOver: (data: SeriesOverPayload) => void
+  snailAte: (data: SnailAtePayload) => void
+  playerKilled: (data: PlayerKilledPayload) => void
+  roleChanged: (data: RoleChangedPayload) => void
+  playerRespawned: (data: PlayerRespawnedPayload) => void
+  // Sent only to a player whose reported move was rejected
+  positionCorrection: (data: PositionCorrectionPayload) => void
+  // Team chat only goes to the sender's team
+  chat: (data: ChatMessage) => void
+  adminAction: (data: AdminActionPayload) => void
+  // Sent only to a socket whose message failed validation
+  error: (data: ErrorPayload) => void
+}
+
+export interface ClientToServerEvents {
+  // A room that doesn't exist yet is created with the preset's rules, or the server's default rules
+  joinRoom: (data: JoinRoomPayload) => void
+  joinGame: () => void
+  // Watch the room's match instead of playing in it
+  spectate: () => void
+  leaveGame: () => void
+  playerUpdate: (data: PlayerUpdatePayload) => void
+  // Lets the server send later states as deltas against this one
+  ackState: (data: AckStatePayload) => void
+  // The client can't apply a delta, e.g. it lost the state it builds on - send the whole state next
+  requestResync: () => void
+  collectBerry: (data: { berryId: string }) => void
+  depositBerry: () => void
+  captureGate: (data: { gateId: string }) => void
+  enterGate: (data: { gateId: string }) => void
+  mountSnail: () => void
+  dismountSnail: () => void
+  attack: () => void
+  setReady: (data: SetReadyPayload) => void
+  voteRematch: (data: VoteRematchPayload) => void
+  // Pick a team and role in the lobby instead of the one assigned on joining
+  claimSlot: (data: ClaimSlotPayload) => void
+  // Ask another player to trade teams and roles
+  requestSwap: (data: { playerId: string }) => void
+  answerSwap: (data: AnswerSwapPayload) => void
+  setName: (data: { name: string }) => void
+  chat: (data: ChatSendPayload) => void
+  reconnectPlayer: (data: ReconnectPlayerPayload) => void
+}
+
+export type ServerEvent = keyof ServerToClientEvents
+export type ClientEvent = keyof ClientToServerEvents
+
+// The payload carried by a client event (undefined for events without one)
+export type ClientPayload<E extends ClientEvent> = Parameters<ClientToServerEvents[E]>[0]
@@ -0,0 +1,65 @@
+import { Berry, Gate, KillCause, MapInfo, MatchRules, Role, Side, Team, WinReason } from './protocol'
+
+/**
+ * Replay file format.
+ *
+ * The server records every game as a stream of timestamped events and writes
+ * it to disk gzipped. The stream is compact rather than complete: positions
+ * are sampled a few times a second and rounded, and everything in between is
+ * interpolated by whoever plays the replay back. Bump REPLAY_FORMAT_VERSION
+ * whenever a change here would break reading older files.
+ */
+
+export const REPLAY_FORMAT_VERSION = 2
+
+// Position rounded to centimetres and yaw in radians
+export type PlayerFrame = [x: number, y: number, z: number, yaw: number]
+
+export type ReplayEventBody =
+  | { type: 'join', playerId: string, team: Team, role: Role, isBot: boolean, name: string }
+  | { type: 'leave', playerId: string }
+  | { type: 'role', playerId: string, team: Team, role: Role }
+  // Sampled positions of every player and the snail's track position
+  | { type: 'frame', players: Record<string, PlayerFrame>, snail: number }
+  | { type: 'berryPickup', playerId: string, berryId: string }
+  | { type: 'berryDeposit', playerId: string, berryId: string, team: Team }
+  | { type: 'berryDrop', berryId: string, position: [number, number, number] }
+  // A worker spent the berry they carried on becoming a soldier at a gate
+  | { type: 'berrySpent', playerId: string, berryId: string }
+  | { type: 'snailRider', riderId: string | null }
+  | { type: 'gateCaptured', gateId: string, team: Team }
+  | { type: 'kill', attackerId: string, victimId: string, victimRole: Role, cause: KillCause }
+  | { type: 'respawn', playerId: string }
+  // `queenKills` is how many times the team's queen has now died
+  | { type: 'queenDeath', team: Team, queenKills: number }
+  | { type: 'gameOver', winner: Team, reason: WinReason }
+
+// Every event is stamped with the match time it happened at, in seconds
+export type ReplayEvent = ReplayEventBody & { t: number }
+
+// What the replay list shows about each recorded game
+export interface ReplaySummary {
+  id: string
+  roomId: string
+  // ISO timestamp of when the game started
+  recordedAt: string
+  // Match time at the end of the game, in seconds
+  duration: number
+  map: MapInfo
+  gameNumber: number
+  winner: Team
+  reason: WinReason
+  playerCount: number
+}
+
+export interface ReplayFile extends ReplaySummary {
+  version: number
+  protocolVersion: number
+  sides: Record<Team, Side>
+  // Rules in force when the game ended
+  rules: MatchRules
+  // Objectives as they were when the game started
+  berries: Record<string, Berry>
+  gates: Record<string, Gate>
+  events: ReplayEvent[]
+}
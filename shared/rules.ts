@@ -0,0 +1,64 @@
+import { MatchRules, RulePreset } from './protocol'
+
+/**
+ * Rule presets, shared by the server, which runs matches by them, and the
+ * client, which shows the standard rules until the server's first state.
+ */
+
+const STANDARD_RULES: MatchRules = {
+  preset: 'standard',
+  berriesToWin: 12,
+  queenKillsToWin: 3,
+  seriesBestOf: 3,
+  snailSpeed: 1.5,
+  playerRespawnDelay: 3,
+  queenRespawnDelay: 5,
+  startCountdown: 5,
+  nextGameDelay: 10,
+  disconnectGrace: 30,
+  endedResetDelay: 10 * 60
+}
+
+export const RULE_PRESETS: Record<RulePreset, MatchRules> = {
+  standard: STANDARD_RULES,
+  // Short single games for a lunch break
+  quick: {
+    ...STANDARD_RULES,
+    preset: 'quick',
+    berriesToWin: 6,
+    queenKillsToWin: 2,
+    seriesBestOf: 1,
+    snailSpeed: 3,
+    playerRespawnDelay: 2,
+    queenRespawnDelay: 3,
+    startCountdown: 3,
+    nextGameDelay: 5,
+    disconnectGrace: 15,
+    endedResetDelay: 5 * 60
+  },
+  // Longer series, with time to talk between games and to recover from a dropped connection
+  tournament: {
+    ...STANDARD_RULES,
+    preset: 'tournament',
+    seriesBestOf: 5,
+    startCountdown: 10,
+    nextGameDelay: 30,
+    disconnectGrace: 120,
+    endedResetDelay: 30 * 60
+  },
+  // Hard to win by accident, so players can try things out
+  practice: {
+    ...STANDARD_RULES,
+    preset: 'practice',
+    berriesToWin: 50,
+    queenKillsToWin: 10,
+    seriesBestOf: 1,
+    playerRespawnDelay: 1,
+    queenRespawnDelay: 1,
+    startCountdown: 3,
+    disconnectGrace: 60,
+    endedResetDelay: 60 * 60
+  }
+}
+
+export const DEFAULT_RULES = STANDARD_RULES
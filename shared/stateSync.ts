@@ -0,0 +1,159 @@
+import { Berry, GameState, Gate, Player, Vector3Tuple } from './protocol'
+import { decode, encode } from './msgpack'
+
+/**
+ * How the server keeps each client's copy of the game state up to date.
+ *
+ * Every state the server sends is numbered, and clients acknowledge each one
+ * they apply. The server then sends a client only what changed since the
+ * newest state it acknowledged, or the whole state when it has no such
+ * baseline, e.g. just after joining or when the client asks for a resync.
+ * Positions go out as whole centimetres and rotations as whole milliradians,
+ * so idle jitter doesn't count as a change and numbers pack small, and every
+ * frame is sent as MessagePack.
+ */
+
+const POSITION_SCALE = 100
+const ROTATION_SCALE = 1000
+
+// A game state with its positions and rotations quantized as they're sent.
+// Deltas are taken between these, so both ends agree on what changed.
+export type WireState = GameState
+
+// New entities in full, changed ones with only the fields that differ, and the IDs of those that are gone
+export interface EntityChanges<T> {
+  changed?: Record<string, Partial<T>>
+  removed?: string[]
+}
+
+type CollectionKey = 'players' | 'berries' | 'gates'
+
+export interface StateDelta {
+  // Every other top-level field that changed, each sent whole
+  fields?: Partial<Omit<GameState, CollectionKey>>
+  players?: EntityChanges<Player>
+  berries?: EntityChanges<Berry>
+  gates?: EntityChanges<Gate>
+}
+
+export interface StateFrame {
+  seq: number
+  // Server tick the state was taken on
+  tick: number
+  // The acknowledged state this frame builds on, or 0 when it carries the whole state
+  baseSeq: number
+  delta: StateDelta
+}
+
+const scale = (tuple: Vector3Tuple, factor: number): Vector3Tuple =>
+  [Math.round(tuple[0] * factor), Math.round(tuple[1] * factor), Math.round(tuple[2] * factor)]
+
+const unscale = (tuple: Vector3Tuple, factor: number): Vector3Tuple =>
+  [tuple[0] / factor, tuple[1] / factor, tuple[2] / factor]
+
+const mapValues = <T>(record: Record<string, T>, map: (value: T) => T): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).map(([id, value]) => [id, map(value)]))
+
+export const quantizeState = (state: GameState): WireState => ({
+  ...state,
+  players: mapValues(state.players, player => ({
+    ...player,
+    position: scale(player.position, POSITION_SCALE),
+    rotation: scale(player.rotation, ROTATION_SCALE)
+  })),
+  berries: mapValues(state.berries, berry => ({ ...berry, position: scale(berry.position, POSITION_SCALE) })),
+  gates: mapValues(state.gates, gate => ({ ...gate, position: scale(gate.position, POSITION_SCALE) }))
+})
+
+export const dequantizeState = (state: WireState): GameState => ({
+  ...state,
+  players: mapValues(state.players, player => ({
+    ...player,
+    position: unscale(player.position, POSITION_SCALE),
+    rotation: unscale(player.rotation, ROTATION_SCALE)
+  })),
+  berries: mapValues(state.berries, berry => ({ ...berry, position: unscale(berry.position, POSITION_SCALE) })),
+  gates: mapValues(state.gates, gate => ({ ...gate, position: unscale(gate.position, POSITION_SCALE) }))
+})
+
+// Structural equality for JSON-like values
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const aRecord = a as Record<string, unknown>
+  const bRecord = b as Record<string, unknown>
+  const keys = Object.keys(aRecord)
+  return keys.length === Object.keys(bRecord).length && keys.every(key => sameValue(aRecord[key], bRecord[key]))
+}
+
+// The fields of `next` that differ from `base`
+const changedFields = <T extends object>(base: T | undefined, next: T): Partial<T> => {
+  const fields: Partial<T> = {}
+  for (const key of Object.keys(next) as (keyof T)[]) {
+    if (!base || !sameValue(base[key], next[key])) {
+      fields[key] = next[key]
+    }
+  }
+  return fields
+}
+
+const isEmpty = (value: object) => Object.keys(value).length === 0
+
+const diffEntities = <T extends object>(base: Record<string, T> | undefined, next: Record<string, T>): EntityChanges<T> | undefined => {
+  const changed: Record<string, Partial<T>> = {}
+  for (const [id, entity] of Object.entries(next)) {
+    const fields = changedFields(base?.[id], entity)
+    if (!isEmpty(fields)) {
+      changed[id] = fields
+    }
+  }
+  const removed = base ? Object.keys(base).filter(id => !(id in next)) : []
+
+  if (isEmpty(changed) && removed.length === 0) return undefined
+  return {
+    changed: isEmpty(changed) ? undefined : changed,
+    removed: removed.length === 0 ? undefined : removed
+  }
+}
+
+/**
+ * What changed from `base` to `next`, or everything in `next` when there's no base.
+ */
+export const diffState = (base: WireState | null, next: WireState): StateDelta => {
+  const { players, berries, gates, ...rest } = next
+  const baseRest: Partial<WireState> | undefined = base ?? undefined
+  const fields = changedFields(baseRest as typeof rest | undefined, rest)
+
+  return {
+    fields: isEmpty(fields) ? undefined : fields,
+    players: diffEntities(base?.players, players),
+    berries: diffEntities(base?.berries, berries),
+    gates: diffEntities(base?.gates, gates)
+  }
+}
+
+// Entities that didn't change keep their identity, so views of them needn't re-render
+const applyEntityChanges = <T>(base: Record<string, T> = {}, changes: EntityChanges<T> = {}): Record<string, T> => {
+  const entities = { ...base }
+  changes.removed?.forEach(id => delete entities[id])
+  Object.entries(changes.changed ?? {}).forEach(([id, fields]) => {
+    entities[id] = { ...entities[id], ...fields }
+  })
+  return entities
+}
+
+export const applyDelta = (base: WireState | null, delta: StateDelta): WireState => ({
+  ...base,
+  ...delta.fields,
+  players: applyEntityChanges(base?.players, delta.players),
+  berries: applyEntityChanges(base?.berries, delta.berries),
+  gates: applyEntityChanges(base?.gates, delta.gates)
+}) as WireState
+
+export const encodeFrame = (frame: StateFrame): Uint8Array => encode(frame)
+
+// Socket.io hands binary data to browsers as an ArrayBuffer and to Node as a Buffer
+export const decodeFrame = (data: ArrayBuffer | Uint8Array): StateFrame =>
+  decode(data instanceof Uint8Array ? data : new Uint8Array(data)) as StateFrame
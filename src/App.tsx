@@ -4,8 +4,18 @@ import { Environment } from '@react-three/drei'
 import { Physics } from '@react-three/rapier'
 import './App.css'
 import Game from './game/Game'
+import ReplayGame from './game/ReplayGame'
+import AdminNotices from './components/AdminNotices'
+import ChatPanel from './components/ChatPanel'
 import GameHUD from './components/GameHUD'
-import { useSocketConnection } from './networking/useSocketConnection'
+import GameOverScreen from './components/GameOverScreen'
+import ReplayControls from './components/ReplayControls'
+import SpectatorHUD from './components/SpectatorHUD'
+import { isSpectatorMode, useSocketConnection } from './networking/useSocketConnection'
+import { isReplayMode } from './networking/replays'
+
+// Opened with ?replay to watch a recorded game instead of playing
+const replayMode = isReplayMode()
 
 function App() {
   const { isConnected } = useSocketConnection()
@@ -49,7 +59,7 @@ function App() {
         >
           <Suspense fallback={null}>
             <Physics debug={false}>
-              <Game showDebug={showDebug} />
+              {replayMode ? <ReplayGame /> : <Game showDebug={showDebug} />}
               <Environment preset="city" />
             </Physics>
             {/* Removed OrbitControls to allow the camera follow in Player component to work */}
@@ -57,7 +67,18 @@ function App() {
         </Canvas>
         
         {/* HUD is now outside of the Canvas */}
-        <GameHUD isConnected={isConnected} />
+        {replayMode ? (
+          <ReplayControls />
+        ) : (
+          <>
+            {isSpectatorMode()
+              ? <SpectatorHUD isConnected={isConnected} />
+              : <GameHUD isConnected={isConnected} />}
+            <ChatPanel readOnly={isSpectatorMode()} />
+            <AdminNotices />
+            <GameOverScreen />
+          </>
+        )}
       </div>
     </div>
   )
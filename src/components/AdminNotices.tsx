@@ -0,0 +1,26 @@
+import React from 'react'
+import { useGameStore } from '../store/gameStore'
+
+/**
+ * AdminNotices
+ *
+ * Tells players and spectators when a server admin steps in: a banner while
+ * the match is paused and the last few admin actions, such as a player being
+ * moved or kicked or the rules changing.
+ */
+const AdminNotices: React.FC = () => {
+  const { gameState, adminNotices } = useGameStore()
+
+  if (!gameState.paused && adminNotices.length === 0) return null
+
+  return (
+    <div className="admin-notices">
+      {gameState.paused && <div className="admin-paused">⏸ Paused by an admin</div>}
+      {adminNotices.map(notice => (
+        <div key={notice.id}>🛠 {notice.message}</div>
+      ))}
+    </div>
+  )
+}
+
+export default AdminNotices
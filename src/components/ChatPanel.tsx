@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { ChatChannel } from '../../shared/protocol'
+import { useSocketConnection } from '../networking/useSocketConnection'
+import { useGameStore } from '../store/gameStore'
+
+// Matches the server's limits, so the inputs stop where the server would cut
+const MAX_NAME_LENGTH = 20
+const MAX_CHAT_LENGTH = 200
+
+interface ChatPanelProps {
+  // Spectators read all-chat but can't post
+  readOnly?: boolean
+}
+
+// Keys typed into the panel are for the text, not for flying the bee
+const keepKeysInPanel = (event: React.KeyboardEvent) => event.stopPropagation()
+
+/**
+ * ChatPanel
+ *
+ * Recent chat for the room, with a box to send to everyone or just your team
+ * and a field to set your nickname. The server cleans up and rate-limits
+ * both, so what shows here is what everyone else sees.
+ */
+const ChatPanel: React.FC<ChatPanelProps> = ({ readOnly = false }) => {
+  const { chatMessages, nickname, setNickname, playerId } = useGameStore()
+  const { socket } = useSocketConnection()
+  const [channel, setChannel] = useState<ChatChannel>('all')
+  const [text, setText] = useState('')
+  const [nameDraft, setNameDraft] = useState(nickname)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight })
+  }, [chatMessages])
+
+  const send = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!socket || !text.trim()) return
+
+    socket.emit('chat', { channel, text })
+    setText('')
+  }
+
+  const saveName = () => {
+    const name = nameDraft.trim()
+    if (name && name !== nickname) setNickname(name)
+  }
+
+  return (
+    <div className="chat-panel" onKeyDown={keepKeysInPanel} onKeyUp={keepKeysInPanel}>
+      <div className="chat-messages" ref={listRef}>
+        {chatMessages.map(message => (
+          <div key={message.id} className={`chat-message ${message.channel}`}>
+            {message.channel === 'team' && '[team] '}
+            <span className={`chat-name ${message.team}`}>{message.name}{message.fromId === playerId && ' (you)'}:</span> {message.text}
+          </div>
+        ))}
+      </div>
+
+      {!readOnly && (
+        <>
+          <form className="chat-row" onSubmit={send}>
+            <button
+              type="button"
+              className="lobby-button"
+              onClick={() => setChannel(channel === 'all' ? 'team' : 'all')}
+            >
+              {channel === 'all' ? 'All' : 'Team'}
+            </button>
+            <input
+              value={text}
+              maxLength={MAX_CHAT_LENGTH}
+              placeholder={channel === 'all' ? 'Message everyone' : 'Message your team'}
+              onChange={event => setText(event.target.value)}
+            />
+          </form>
+          <form className="chat-row" onSubmit={event => { event.preventDefault(); saveName() }}>
+            <span>Name</span>
+            <input
+              value={nameDraft}
+              maxLength={MAX_NAME_LENGTH}
+              placeholder="Your nickname"
+              onChange={event => setNameDraft(event.target.value)}
+              onBlur={saveName}
+            />
+          </form>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ChatPanel
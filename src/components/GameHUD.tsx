@@ -1,13 +1,68 @@
 import React, { useState } from 'react'
+import { CLAIMABLE_ROLES, Player, Role, Team } from '../../shared/protocol'
+import { useSocketConnection } from '../networking/useSocketConnection'
 import { useGameStore } from '../store/gameStore'
 
+// Format seconds as m:ss
+const formatClock = (seconds: number) => {
+  const whole = Math.floor(seconds)
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+// "once", "twice" or e.g. "3 times"
+const times = (count: number) => count === 1 ? 'once' : count === 2 ? 'twice' : `${count} times`
+
 interface GameHUDProps {
   isConnected: boolean
 }
 
 const GameHUD: React.FC<GameHUDProps> = ({ isConnected }) => {
   const [showControls, setShowControls] = useState(true)
-  const { gameState } = useGameStore()
+  const { gameState, roomId, playerId, killFeed, connectionError } = useGameStore()
+  const { socket } = useSocketConnection()
+  const localPlayer = playerId ? gameState.players[playerId] : undefined
+  const inLobby = gameState.status === 'waiting' || gameState.status === 'starting'
+  
+  // Describe a player as e.g. "Ana (blue soldier)" for the kill feed
+  const describePlayer = (id: string) => {
+    const player = gameState.players[id]
+    return player ? `${player.name} (${player.team} ${player.role})` : 'someone'
+  }
+  
+  // Connected players on a team, queen first
+  const roster = (team: Team) => Object.values(gameState.players)
+    .filter(player => player.team === team && player.isActive)
+    .sort((a, b) => Number(b.role === 'queen') - Number(a.role === 'queen'))
+  
+  const toggleReady = () => {
+    if (localPlayer) {
+      socket?.emit('setReady', { ready: !localPlayer.isReady })
+    }
+  }
+  
+  // A team's queen slot is open unless a human other than us holds it - bots give it up
+  const isQueenTaken = (team: Team) => Object.values(gameState.players)
+    .some(player => player.team === team && player.role === 'queen' && !player.isBot && player.id !== playerId)
+  
+  const isOwnSlot = (team: Team, role: Role) => localPlayer?.team === team && localPlayer.role === role
+  
+  const claimSlot = (team: Team, role: Role) => {
+    socket?.emit('claimSlot', { team, role })
+  }
+  
+  // Other humans we could trade slots with
+  const canSwapWith = (player: Player) =>
+    !!localPlayer && player.id !== playerId && !player.isBot &&
+    (player.team !== localPlayer.team || player.role !== localPlayer.role)
+  
+  const hasAskedToSwap = (player: Player) =>
+    gameState.swapRequests.some(request => request.fromId === playerId && request.toId === player.id)
+  
+  // Swap requests waiting for our answer
+  const incomingSwaps = gameState.swapRequests
+    .filter(request => request.toId === playerId)
+    .map(request => gameState.players[request.fromId])
+    .filter((player): player is Player => !!player)
   
   // No need for a portal anymore since it's rendered outside the canvas in App.tsx
   return (
@@ -16,10 +71,20 @@ const GameHUD: React.FC<GameHUDProps> = ({ isConnected }) => {
       <div className="hud">
         <div className="hud-item">
           <h2>Game Status: {gameState.status}</h2>
+          {roomId && <div>Room: {roomId}</div>}
+          <div>Map: {gameState.map.name}</div>
+          <div>Rules: {gameState.rules.preset}</div>
+          <div>Match Time: {formatClock(gameState.matchTime)}</div>
+        </div>
+        
+        <div className="hud-item">
+          <h3>Series: Game {gameState.series.gameNumber} (best of {gameState.series.bestOf})</h3>
+          <div>Blue: {gameState.series.wins.blue} | Gold: {gameState.series.wins.gold}</div>
+          <div>Blue plays from the {gameState.sides.blue} side</div>
         </div>
         
         <div className="hud-item">
-          <h3>Score</h3>
+          <h3>Queen Kills (first to {gameState.rules.queenKillsToWin})</h3>
           <div>Blue: {gameState.blueScore} | Gold: {gameState.goldScore}</div>
         </div>
         
@@ -30,16 +95,34 @@ const GameHUD: React.FC<GameHUDProps> = ({ isConnected }) => {
         </div>
         
         <div className="hud-item">
-          <h3>Berry Count</h3>
+          <h3>Berries (first to {gameState.rules.berriesToWin})</h3>
           <div>Blue: {gameState.berryCount.blue} | Gold: {gameState.berryCount.gold}</div>
         </div>
         
         <div className="hud-item">
-          <h3>Snail Progress: {gameState.snailPosition}%</h3>
+          <h3>Warrior Gates</h3>
+          <div>
+            Blue: {Object.values(gameState.gates).filter(gate => gate.team === 'blue').length} |
+            Gold: {Object.values(gameState.gates).filter(gate => gate.team === 'gold').length} |
+            Neutral: {Object.values(gameState.gates).filter(gate => !gate.team).length}
+          </div>
+        </div>
+        
+        <div className="hud-item">
+          <h3>Snail Progress: {Math.round(gameState.snailPosition)}%</h3>
+          <div>
+            {gameState.snail.riderId
+              ? `Ridden by ${gameState.players[gameState.snail.riderId]?.team ?? 'unknown'}`
+              : 'No rider'}
+            {gameState.snail.contesterId && ' - contested!'}
+            {gameState.snail.digestTime > 0 && ' - eating'}
+          </div>
           <div style={{ 
             width: '100%', 
             height: '20px', 
-            background: 'linear-gradient(to right, #4455ff, #ffcc22)',
+            background: gameState.sides.blue === 'left'
+              ? 'linear-gradient(to right, #4455ff, #ffcc22)'
+              : 'linear-gradient(to right, #ffcc22, #4455ff)',
             position: 'relative'
           }}>
             <div style={{ 
@@ -55,9 +138,87 @@ const GameHUD: React.FC<GameHUDProps> = ({ isConnected }) => {
         </div>
       </div>
       
+      {/* Pre-match lobby */}
+      {inLobby && (
+        <div className="lobby">
+          {gameState.status === 'starting'
+            ? <h2>Match starts in {Math.ceil(gameState.countdown)}</h2>
+            : <h2>Waiting for players</h2>}
+          <div className="lobby-teams">
+            {(['blue', 'gold'] as const).map(team => (
+              <div key={team} className={`lobby-team ${team}`}>
+                <h3>{team === 'blue' ? 'Blue' : 'Gold'} team</h3>
+                {roster(team).map(player => (
+                  <div key={player.id}>
+                    {player.isReady ? '✅' : '⏳'} {player.name} - {player.role}
+                    {player.isBot && ' (bot)'}
+                    {player.id === playerId && ' (you)'}
+                    {canSwapWith(player) && (
+                      <button
+                        className="lobby-button"
+                        disabled={hasAskedToSwap(player)}
+                        onClick={() => socket?.emit('requestSwap', { playerId: player.id })}
+                      >
+                        {hasAskedToSwap(player) ? 'Swap asked' : 'Swap'}
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {localPlayer && (
+                  <div className="lobby-slots">
+                    {CLAIMABLE_ROLES.map(role => (
+                      <button
+                        key={role}
+                        className={`lobby-button ${isOwnSlot(team, role) ? 'selected' : ''}`}
+                        disabled={isOwnSlot(team, role) || (role === 'queen' && isQueenTaken(team))}
+                        onClick={() => claimSlot(team, role)}
+                      >
+                        {role}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {incomingSwaps.map(player => (
+            <div key={player.id} className="lobby-swap">
+              {player.name} ({player.team} {player.role}) wants to swap with you
+              <button className="lobby-button" onClick={() => socket?.emit('answerSwap', { playerId: player.id, accept: true })}>
+                Accept
+              </button>
+              <button className="lobby-button" onClick={() => socket?.emit('answerSwap', { playerId: player.id, accept: false })}>
+                Decline
+              </button>
+            </div>
+          ))}
+          {localPlayer && (
+            <button className="close-button" onClick={toggleReady}>
+              {localPlayer.isReady ? 'Not ready' : 'Ready'}
+            </button>
+          )}
+        </div>
+      )}
+      
+      {/* Kill feed */}
+      {killFeed.length > 0 && (
+        <div className="kill-feed">
+          {killFeed.map(kill => (
+            <div key={kill.id}>
+              {kill.cause === 'snail' ? '🐌' : '⚔️'} {describePlayer(kill.attackerId)} killed {kill.victimId === playerId ? 'you' : describePlayer(kill.victimId)}
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {/* Death notice */}
+      {localPlayer && !localPlayer.isAlive && (
+        <div className="death-notice">💀 You died - respawning at your base in {Math.ceil(localPlayer.respawnTime)}s</div>
+      )}
+      
       {/* Connection status */}
       <div className={`connection-status ${isConnected ? 'connected' : 'disconnected'}`}>
-        {isConnected ? '✓ Connected' : '✗ Disconnected'}
+        {connectionError ?? (isConnected ? '✓ Connected' : '✗ Disconnected')}
       </div>
       
       {/* Controls overlay */}
@@ -84,14 +245,20 @@ const GameHUD: React.FC<GameHUDProps> = ({ isConnected }) => {
                 <div className="control-group">
                   <span className="control-key">SPACE</span> Jump
                 </div>
+                <div className="control-group">
+                  <span className="control-key">E</span> Ride / leave the snail
+                </div>
+                <div className="control-group">
+                  <span className="control-key">F</span> Attack (soldiers and queens)
+                </div>
               </div>
               
               <div>
                 <h3>Game Goals</h3>
                 <p>Killer Queen has three ways to win:</p>
                 <ol>
-                  <li>Economic Victory: Collect berries and fill your hive</li>
-                  <li>Military Victory: Kill the enemy queen three times</li>
+                  <li>Economic Victory: Fill your hive with {gameState.rules.berriesToWin} berries</li>
+                  <li>Military Victory: Kill the enemy queen {times(gameState.rules.queenKillsToWin)}</li>
                   <li>Snail Victory: Ride the snail to your goal</li>
                 </ol>
               </div>
@@ -0,0 +1,121 @@
+import React from 'react'
+import { PlayerSummary, WinReason } from '../../shared/protocol'
+import { isSpectatorMode, useSocketConnection } from '../networking/useSocketConnection'
+import { useGameStore } from '../store/gameStore'
+
+// How each win condition is described on the victory screen
+const WIN_REASONS: Record<WinReason, string> = {
+  economic: 'Economic victory - filled their hive with berries',
+  military: 'Military victory - used up the enemy queen\'s lives',
+  snail: 'Snail victory - rode the snail to their goal',
+  admin: 'Awarded the game by an admin'
+}
+
+/**
+ * GameOverScreen
+ *
+ * Shown once the server ends a game. Lists the win condition, the final
+ * berry, queen kill and snail standings, per-player stats and highlights, and
+ * the series score. Between games it counts down to the next one; once the
+ * series is decided players vote for a rematch - the server starts a new
+ * series as soon as a majority accepts.
+ */
+const GameOverScreen: React.FC = () => {
+  const { gameState, playerId: storedPlayerId } = useGameStore()
+  // Spectators see the summary too, but have no player and no vote
+  const playerId = isSpectatorMode() ? null : storedPlayerId
+  const { socket } = useSocketConnection()
+  const { result, series } = gameState
+
+  if (gameState.status !== 'ended' || !result) return null
+
+  // Bots don't vote
+  const connected = Object.values(gameState.players).filter(player => player.isActive && !player.isBot)
+  const accepted = connected.filter(player => gameState.rematchVotes.includes(player.id)).length
+  const needed = Math.floor(connected.length / 2) + 1
+  const hasVoted = playerId ? gameState.rematchVotes.includes(playerId) : false
+  // The snail track runs from the left end (0) to the right end (100), and blue pushes away from its side
+  const blueSnailProgress = gameState.sides.blue === 'left' ? result.snailPosition : 100 - result.snailPosition
+
+  // Describe a player as e.g. "Buzz (gold worker, you)"
+  const describePlayer = (summary: Pick<PlayerSummary, 'playerId' | 'name' | 'team' | 'role'>) =>
+    `${summary.name} (${summary.team} ${summary.role}${summary.playerId === playerId ? ', you' : ''})`
+
+  const findPlayer = (id: string) => result.players.find(player => player.playerId === id)
+
+  return (
+    <div className="controls-overlay game-over">
+      <div className="controls-container">
+        <h2 className={`controls-title ${result.winner}`}>
+          {result.winner === 'blue' ? 'Blue' : 'Gold'} team wins!
+        </h2>
+        <p>{WIN_REASONS[result.reason]}</p>
+        <p>
+          Series (best of {series.bestOf}): Blue {series.wins.blue} - {series.wins.gold} Gold
+          {series.winner && ` - ${series.winner === 'blue' ? 'Blue' : 'Gold'} wins the series!`}
+        </p>
+
+        <table className="game-over-table">
+          <thead>
+            <tr><th></th><th>Blue</th><th>Gold</th></tr>
+          </thead>
+          <tbody>
+            <tr><td>Berries</td><td>{result.berryCount.blue}</td><td>{result.berryCount.gold}</td></tr>
+            <tr><td>Queen kills</td><td>{result.queenKills.blue}</td><td>{result.queenKills.gold}</td></tr>
+            <tr>
+              <td>Snail</td>
+              <td>{Math.round(blueSnailProgress)}%</td>
+              <td>{Math.round(100 - blueSnailProgress)}%</td>
+            </tr>
+          </tbody>
+        </table>
+
+        {result.highlights.length > 0 && (
+          <>
+            <h3>Highlights</h3>
+            {result.highlights.map(highlight => {
+              const player = findPlayer(highlight.playerId)
+              return (
+                <div key={highlight.title}>
+                  ⭐ {highlight.title}: {player ? describePlayer(player) : 'someone'} ({highlight.value})
+                </div>
+              )
+            })}
+          </>
+        )}
+
+        <table className="game-over-table">
+          <thead>
+            <tr><th>Player</th><th>Kills</th><th>Deaths</th><th>Berries</th><th>Snail</th></tr>
+          </thead>
+          <tbody>
+            {result.players.map(player => (
+              <tr key={player.playerId} className={player.team}>
+                <td>{describePlayer(player)}</td>
+                <td>{player.kills}</td>
+                <td>{player.deaths}</td>
+                <td>{player.berriesDeposited}</td>
+                <td>{Math.round(player.snailDistance)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {series.winner ? (
+          <>
+            <p>Rematch votes: {accepted} / {needed} needed</p>
+            {playerId && (
+              <button className="close-button" onClick={() => socket?.emit('voteRematch', { accept: !hasVoted })}>
+                {hasVoted ? 'Withdraw rematch vote' : 'Vote for a new series'}
+              </button>
+            )}
+          </>
+        ) : (
+          <p>Game {series.gameNumber + 1} starts in {Math.ceil(series.nextGameIn)}s - teams swap sides</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default GameOverScreen
@@ -0,0 +1,144 @@
+import React, { useEffect } from 'react'
+import { describeReplayPlayer, parseReplay, ReplayMarker } from '../game/replay'
+import { fetchReplay, getReplayIdFromUrl } from '../networking/replays'
+import { useGameStore } from '../store/gameStore'
+import { REPLAY_SPEEDS, useReplayStore } from '../store/replayStore'
+
+// Format seconds as m:ss
+const formatClock = (seconds: number) => {
+  const whole = Math.floor(seconds)
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+// Start a little before an event when jumping to it, so it can be seen happening
+const JUMP_LEAD_IN = 2
+
+/**
+ * ReplayControls
+ *
+ * The replay viewer's HUD. Loads a replay from disk (or from the server with
+ * ?replay=<id>), then offers play/pause, scrubbing, playback speed, jumping
+ * to kills and berry events, and choosing which player the camera follows.
+ */
+const ReplayControls: React.FC = () => {
+  const { replay, time, playing, speed, followId, error, setReplay, setTime, setPlaying, setSpeed, setFollowId, setError } = useReplayStore()
+  const { gameState } = useGameStore()
+
+  // Load the server's replay named in the URL, if any
+  useEffect(() => {
+    const replayId = getReplayIdFromUrl()
+    if (!replayId) return
+
+    fetchReplay(replayId)
+      .then(setReplay)
+      .catch((loadError: Error) => setError(loadError.message))
+  }, [setReplay, setError])
+
+  const openFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    parseReplay(file, file.name.endsWith('.gz'))
+      .then(setReplay)
+      .catch((loadError: Error) => setError(`Couldn't read ${file.name}: ${loadError.message}`))
+  }
+
+  if (!replay) {
+    return (
+      <div className="lobby">
+        <h2>Replay viewer</h2>
+        <p>Open a replay downloaded from the server's /replays list.</p>
+        <input type="file" accept=".gz,.json" onChange={openFile} />
+        {error && <p className="disconnected">{error}</p>}
+      </div>
+    )
+  }
+
+  const { file, markers } = replay
+  const players = [...new Set(replay.events.flatMap(event => event.type === 'join' ? [event.playerId] : []))]
+
+  const togglePlaying = () => {
+    // Start over once the end has been reached
+    if (!playing && time >= file.duration) {
+      setTime(0)
+    }
+    setPlaying(!playing)
+  }
+
+  const jumpTo = (marker: ReplayMarker) => {
+    setTime(marker.t - JUMP_LEAD_IN)
+    setFollowId(marker.playerId)
+  }
+
+  const previousMarker = [...markers].reverse().find(marker => marker.t - JUMP_LEAD_IN < time - 0.5)
+  const nextMarker = markers.find(marker => marker.t - JUMP_LEAD_IN > time + 0.5)
+
+  return (
+    <>
+      <div className="hud">
+        <div className="hud-item">
+          <h2>Replay: Game {file.gameNumber} on {file.map.name}</h2>
+          <div>Recorded {new Date(file.recordedAt).toLocaleString()} in room {file.roomId}</div>
+          <div>{file.winner === 'blue' ? 'Blue' : 'Gold'} won ({file.reason})</div>
+        </div>
+
+        <div className="hud-item">
+          <h3>Score</h3>
+          <div>Blue: {gameState.blueScore} | Gold: {gameState.goldScore}</div>
+          <div>Berries - Blue: {gameState.berryCount.blue} | Gold: {gameState.berryCount.gold}</div>
+        </div>
+      </div>
+
+      <div className="replay-controls">
+        <div className="replay-row">
+          <button onClick={togglePlaying}>{playing ? 'Pause' : 'Play'}</button>
+          <input
+            type="range"
+            min={0}
+            max={file.duration}
+            step={0.01}
+            value={time}
+            onChange={(event) => setTime(Number(event.target.value))}
+          />
+          <span>{formatClock(time)} / {formatClock(file.duration)}</span>
+        </div>
+
+        <div className="replay-row">
+          <span>Speed</span>
+          {REPLAY_SPEEDS.map(option => (
+            <button key={option} className={option === speed ? 'selected' : ''} onClick={() => setSpeed(option)}>
+              {option}x
+            </button>
+          ))}
+        </div>
+
+        <div className="replay-row">
+          <button disabled={!previousMarker} onClick={() => previousMarker && jumpTo(previousMarker)}>Previous event</button>
+          <select
+            value=""
+            onChange={(event) => jumpTo(markers[Number(event.target.value)])}
+            disabled={markers.length === 0}
+          >
+            <option value="" disabled>Jump to a kill or berry...</option>
+            {markers.map((marker, index) => (
+              <option key={index} value={index}>{formatClock(marker.t)} {marker.label}</option>
+            ))}
+          </select>
+          <button disabled={!nextMarker} onClick={() => nextMarker && jumpTo(nextMarker)}>Next event</button>
+        </div>
+
+        <div className="replay-row">
+          <span>Camera</span>
+          <select value={followId ?? ''} onChange={(event) => setFollowId(event.target.value || null)}>
+            <option value="">Overview</option>
+            {players.map(playerId => (
+              <option key={playerId} value={playerId}>Follow {describeReplayPlayer(replay, playerId)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </>
+  )
+}
+
+export default ReplayControls
@@ -0,0 +1,106 @@
+import React from 'react'
+import { Player, Team } from '../../shared/protocol'
+import { useGameStore } from '../store/gameStore'
+import { SpectatorCameraMode, useSpectatorStore } from '../store/spectatorStore'
+
+// Format seconds as m:ss
+const formatClock = (seconds: number) => {
+  const whole = Math.floor(seconds)
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+const CAMERA_MODES: { mode: SpectatorCameraMode, label: string }[] = [
+  { mode: 'overhead', label: 'Overhead' },
+  { mode: 'follow', label: 'Follow' },
+  { mode: 'free', label: 'Free (WASD, Space, Shift)' }
+]
+
+interface SpectatorHUDProps {
+  isConnected: boolean
+}
+
+/**
+ * SpectatorHUD
+ *
+ * What spectators see instead of the player HUD: the score, both teams'
+ * rosters with who is alive, carrying a berry or riding the snail, and the
+ * camera controls. Clicking a player in a roster follows them.
+ */
+const SpectatorHUD: React.FC<SpectatorHUDProps> = ({ isConnected }) => {
+  const { gameState, roomId, connectionError } = useGameStore()
+  const { cameraMode, followId, setCameraMode, setFollowId } = useSpectatorStore()
+
+  // Players on a team, queen first
+  const roster = (team: Team) => Object.values(gameState.players)
+    .filter(player => player.team === team)
+    .sort((a, b) => Number(b.role === 'queen') - Number(a.role === 'queen'))
+
+  const isCarryingBerry = (player: Player) =>
+    Object.values(gameState.berries).some(berry => berry.carrierId === player.id)
+
+  const follow = (player: Player) => {
+    setFollowId(player.id)
+    setCameraMode('follow')
+  }
+
+  return (
+    <>
+      <div className="hud">
+        <div className="hud-item">
+          <h2>Spectating{roomId && ` ${roomId}`}</h2>
+          <div>Status: {gameState.status}</div>
+          <div>Map: {gameState.map.name} - game {gameState.series.gameNumber} (best of {gameState.series.bestOf})</div>
+          <div>Rules: {gameState.rules.preset} - {gameState.rules.berriesToWin} berries or {gameState.rules.queenKillsToWin} queen kills to win</div>
+          <div>Match Time: {formatClock(gameState.matchTime)}</div>
+          <div>Spectators: {gameState.spectatorCount}</div>
+        </div>
+
+        <div className="hud-item">
+          <h3>Score</h3>
+          <div>Queen kills - Blue: {gameState.blueScore} | Gold: {gameState.goldScore}</div>
+          <div>Berries - Blue: {gameState.berryCount.blue} | Gold: {gameState.berryCount.gold}</div>
+          <div>Snail: {Math.round(gameState.snailPosition)}% (blue plays from the {gameState.sides.blue})</div>
+        </div>
+      </div>
+
+      <div className="spectator-panel">
+        <div className="lobby-teams">
+          {(['blue', 'gold'] as const).map(team => (
+            <div key={team} className={`lobby-team ${team}`}>
+              <h3>{team === 'blue' ? 'Blue' : 'Gold'} team</h3>
+              {roster(team).map(player => (
+                <div
+                  key={player.id}
+                  className={`spectator-player ${player.id === followId && cameraMode === 'follow' ? 'selected' : ''}`}
+                  onClick={() => follow(player)}
+                >
+                  {player.isAlive ? (player.role === 'queen' ? '👑' : '🐝') : '💀'} {player.name} - {player.role}
+                  {isCarryingBerry(player) && ' 🍒'}
+                  {gameState.snail.riderId === player.id && ' 🐌'}
+                  {player.isBot && ' (bot)'}
+                  {!player.isActive && ' (disconnected)'}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="replay-row">
+          <span>Camera</span>
+          {CAMERA_MODES.map(({ mode, label }) => (
+            <button key={mode} className={mode === cameraMode ? 'selected' : ''} onClick={() => setCameraMode(mode)}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Connection status */}
+      <div className={`connection-status ${isConnected ? 'connected' : 'disconnected'}`}>
+        {connectionError ?? (isConnected ? '✓ Connected' : '✗ Disconnected')}
+      </div>
+    </>
+  )
+}
+
+export default SpectatorHUD
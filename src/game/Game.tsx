@@ -1,149 +1,267 @@
-import { useEffect, useRef, useState } from 'react'
-import { useSocketConnection } from '../networking/useSocketConnection'
+import { useEffect, useRef } from 'react'
+import { GameSocket, getRoomIdFromUrl, getRulePresetFromUrl, isSpectatorMode, useSocketConnection } from '../networking/useSocketConnection'
 import { useGameStore } from '../store/gameStore'
 import { KeyboardControlsEntry } from '@react-three/drei'
 import { PhysicsDebugger } from './components/PhysicsDebugger'
+import { Berries } from './components/Berries'
+import { Snail } from './components/Snail'
+import { Gates } from './components/Gates'
 import Arena from './scenes/Arena'
 import Player from './models/Player'
+import SpectatorCamera from './SpectatorCamera'
 import { Controls } from '../main'
+import { ServerEvent, ServerToClientEvents } from '../../shared/protocol'
+import { WireState, applyDelta, decodeFrame, dequantizeState } from '../../shared/stateSync'
 
-interface PlayerData {
-  id: string
-  position: [number, number, number]
-  rotation: [number, number, number]
-  team: 'blue' | 'gold'
-  role: 'queen' | 'worker' | 'soldier'
-  isActive: boolean
-}
-
-interface GameStateResponse {
-  players: Record<string, PlayerData>
-}
+// Spectators watch without a player of their own
+const spectating = isSpectatorMode()
 
-interface PlayerAssignedResponse {
-  playerId: string
-  team: 'blue' | 'gold'
-  role: 'queen' | 'worker' | 'soldier'
-}
+// A player's nickname for logs, falling back to the start of their ID
+const nameOf = (playerId: string) => useGameStore.getState().gameState.players[playerId]?.name ?? playerId.slice(0, 5)
 
-interface PlayerPositionUpdateResponse {
-  id: string
-  position: [number, number, number]
-  rotation: [number, number, number]
+// Ask the server for our player back, proving it's ours with the saved session token
+const requestReconnect = (socket: GameSocket, playerId: string) => {
+  const { sessionToken } = useGameStore.getState()
+  socket.emit('reconnectPlayer', { playerId, sessionToken: sessionToken ?? '' })
 }
 
 const Game = ({ showDebug = false }) => {
   const { socket } = useSocketConnection()
-  const { gameState, playerId, setGameState, setPlayerId, updatePlayerPosition, clearPlayerId } = useGameStore()
+  const { gameState, playerId: storedPlayerId, nickname, setGameState, setPlayerId, setRoomId, clearPlayerId, teleportLocalPlayer, addKill, addChatMessage, addAdminNotice, setConnectionError } = useGameStore()
+  // A spectator's saved player ID is kept for when they play again, but not used
+  const playerId = spectating ? null : storedPlayerId
   
-  // Use ref to track if player has already joined to prevent multiple joins
-  const hasJoinedRef = useRef(false)
-  // Track connection status to avoid multiple reconnection attempts
-  const connectionAttemptedRef = useRef(false)
   // Track reconnection attempts
   const reconnectionAttempts = useRef(0)
-  // Track if we should try to rejoin as a new player
-  const [shouldRejoin, setShouldRejoin] = useState(false)
-  
-  // If we have a playerId, we should consider ourselves already joined
-  useEffect(() => {
-    if (playerId) {
-      console.log('Setting hasJoinedRef to true because we have a playerId:', playerId)
-      hasJoinedRef.current = true;
-    }
-  }, [playerId]);
+  // Sequence number of the newest state frame applied
+  const lastStateSeqRef = useRef(0)
+  // States received from the server by sequence number, as baselines for the deltas that follow
+  const syncedStatesRef = useRef(new Map<number, WireState>())
+  // ID of the connection we last joined on - socket.io gives every reconnection a new one
+  const joinedConnectionRef = useRef<string | undefined>(undefined)
+  // The nickname last sent for our player, so a name the server cleaned up isn't sent again
+  const sentNicknameRef = useRef<{ playerId: string, nickname: string } | null>(null)
   
   // Handle socket connection and game events
   useEffect(() => {
     // Exit early if no socket connection
     if (!socket) return;
     
-    // Only set up event listeners once
-    if (!connectionAttemptedRef.current) {
-      console.log('Socket connected, setting up game events')
-      connectionAttemptedRef.current = true
-      
-      // If we should rejoin as a new player (previous reconnection failed)
-      if (shouldRejoin) {
-        console.log('Rejoining as a new player after failed reconnection')
-        socket.emit('joinGame')
-        hasJoinedRef.current = true
-        setShouldRejoin(false)
-        return
-      }
+    console.log('Socket ready, setting up game events')
+    
+    // Our player, read fresh since listeners outlive renders
+    const currentPlayerId = () => spectating ? null : useGameStore.getState().playerId
+    
+    // Forget the states we had - the server numbers them per connection and room
+    const clearSyncedStates = () => {
+      lastStateSeqRef.current = 0
+      syncedStatesRef.current.clear()
+    }
+    
+    // Get into our room and back into the match, on the first connection and
+    // every reconnection. The server forgets a socket's room when it drops.
+    const joinMatch = () => {
+      if (joinedConnectionRef.current === socket.id) return
+      joinedConnectionRef.current = socket.id
+      clearSyncedStates()
+      
+      // Subscribe to our room first - the server only accepts joins and reconnects from sockets in a room
+      const roomId = getRoomIdFromUrl()
+      console.log('Joining room:', roomId)
+      socket.emit('joinRoom', { roomId, preset: getRulePresetFromUrl() })
       
-      // Only join if we haven't already and don't have a player ID
-      if (!hasJoinedRef.current && !playerId) {
+      const playerId = currentPlayerId()
+      if (spectating) {
+        // Spectators only watch - the server sends them snapshots without giving them a player
+        console.log('Spectating...')
+        socket.emit('spectate')
+      } else if (playerId) {
+        console.log('Attempting to reconnect with player ID:', playerId)
+        requestReconnect(socket, playerId)
+        reconnectionAttempts.current += 1
+      } else {
         console.log('Joining game...')
         socket.emit('joinGame')
-        hasJoinedRef.current = true
-      } else if (playerId) {
-        console.log('Already have player ID, not joining again:', playerId)
       }
+    }
+    
+    // Give up on our old player and join again as a new one
+    const rejoinAsNewPlayer = () => {
+      console.log('Rejoining as a new player after failed reconnection')
+      clearPlayerId()
+      reconnectionAttempts.current = 0
+      socket.emit('joinGame')
+    }
+    
+    const listeners: Partial<ServerToClientEvents> = {
+      // Handle room confirmation
+      roomJoined: (response) => {
+        console.log('Room joined:', response.roomId)
+        setRoomId(response.roomId)
+        // State numbering is per room
+        clearSyncedStates()
+      },
+      
+      // Handle the server accepting us as a spectator
+      spectating: () => {
+        console.log('Spectating room')
+      },
       
       // Handle player assignment
-      socket.on('playerAssigned', (response: PlayerAssignedResponse) => {
+      playerAssigned: (response) => {
         console.log('Player assigned:', response)
-        setPlayerId(response.playerId)
-      })
+        setPlayerId(response.playerId, response.sessionToken)
+      },
       
-      // Handle game state updates
-      socket.on('gameState', (state: GameStateResponse) => {
-        console.log('Game state update received:', Object.keys(state.players).length, 'players')
+      // Handle game state changes from the server's tick loop
+      stateSync: (data) => {
+        let wireState: WireState
+        try {
+          const frame = decodeFrame(data)
+          // Drop frames that arrive after a newer one
+          if (frame.seq <= lastStateSeqRef.current) return
+          
+          const syncedStates = syncedStatesRef.current
+          const base = frame.baseSeq === 0 ? null : syncedStates.get(frame.baseSeq)
+          if (base === undefined) {
+            // We don't have the state this delta builds on - ask for the whole state instead
+            socket.emit('requestResync')
+            return
+          }
+          
+          wireState = applyDelta(base, frame.delta)
+          lastStateSeqRef.current = frame.seq
+          syncedStates.set(frame.seq, wireState)
+          // The server only builds on states we've acknowledged since, so older ones can go
+          syncedStates.forEach((_, seq) => {
+            if (seq < frame.baseSeq) syncedStates.delete(seq)
+          })
+          socket.emit('ackState', { seq: frame.seq })
+        } catch (error) {
+          // A frame we can't read or apply - the states we kept can't be trusted either
+          console.error('Failed to apply state frame, asking for the whole state:', error)
+          clearSyncedStates()
+          socket.emit('requestResync')
+          return
+        }
+        
+        const state = dequantizeState(wireState)
         
         // If we have a player ID but it's not in the game state after reconnection attempt
-        if (playerId && !state.players[playerId] && reconnectionAttempts.current > 0) {
+        const playerId = currentPlayerId()
+        if (playerId && state.players[playerId]) {
+          // We're back in, so a later connection drop starts counting afresh
+          reconnectionAttempts.current = 0
+        } else if (playerId && reconnectionAttempts.current > 0) {
           console.log('Player ID not found in game state after reconnection attempt')
           
           if (reconnectionAttempts.current >= 3) {
             console.log('Max reconnection attempts reached, clearing player ID and joining as new player')
-            clearPlayerId()
-            setShouldRejoin(true)
-            hasJoinedRef.current = false
-            reconnectionAttempts.current = 0
-            // Force a new connection attempt
-            connectionAttemptedRef.current = false
+            rejoinAsNewPlayer()
             return
           }
         }
         
         setGameState(state)
-      })
+      },
+      
+      // Handle the end of the match - the summary arrives with the next snapshot
+      gameOver: (data) => {
+        console.log(`Game over: ${data.winner} wins (${data.reason})`)
+      },
+      
+      // Handle the end of a best-of-N series
+      seriesOver: (data) => {
+        console.log(`Series over: ${data.winner} wins ${data.wins.blue}-${data.wins.gold} (best of ${data.bestOf})`)
+      },
+      
+      // Handle the snail eating a worker
+      snailAte: (data) => {
+        console.log(`Snail ridden by ${nameOf(data.riderId)} ate ${nameOf(data.victimId)}`)
+      },
+      
+      // Handle kills for the kill feed
+      playerKilled: (data) => {
+        console.log(`${nameOf(data.attackerId)} killed ${data.victimRole} ${nameOf(data.victimId)}`)
+        addKill(data)
+      },
+      
+      // Handle role changes, e.g. a worker becoming a soldier at a gate.
+      // The new role arrives with the next game state and the Player model swaps itself.
+      roleChanged: (data) => {
+        console.log(`${nameOf(data.playerId)} is now a ${data.role}`)
+      },
       
-      // Handle optimized player position updates
-      socket.on('playerPositionUpdate', (data: PlayerPositionUpdateResponse) => {
-        // Only update if this is not our own player (we already have our local position)
-        if (data.id !== playerId) {
-          updatePlayerPosition(data.id, data.position, data.rotation)
+      // Handle respawns - if it was us, move back to our base
+      playerRespawned: (data) => {
+        if (data.playerId === useGameStore.getState().playerId) {
+          teleportLocalPlayer(data.position)
         }
-      })
+      },
       
-      // If we disconnected previously but have a playerId, send a reconnect message to the server
-      if (playerId && hasJoinedRef.current) {
-        console.log('Attempting to reconnect with player ID:', playerId)
-        socket.emit('reconnectPlayer', { playerId })
-        reconnectionAttempts.current += 1
+      // Chat from our room, or our team only
+      chat: (data) => {
+        addChatMessage(data)
+      },
+      
+      // An admin changed something about the match. If they kicked us, the
+      // server drops our socket next - don't try to come back as the same player.
+      adminAction: (data) => {
+        addAdminNotice(data)
+        if (data.action === 'kick' && data.playerId === currentPlayerId()) {
+          clearPlayerId()
+          setConnectionError('You were removed from the match by an admin')
+        }
+      },
+      
+      // The server rejected one of our moves - snap back to its position
+      positionCorrection: (data) => {
+        teleportLocalPlayer(data.position)
+      },
+      
+      // The server refused one of our messages
+      error: (data) => {
+        console.warn(`Server rejected ${data.event}: ${data.code} (${data.message})`)
+        
+        // Our saved session is no good (or we're locked out of it) - play on as someone new
+        if (data.event === 'reconnectPlayer') {
+          rejoinAsNewPlayer()
+        }
       }
     }
     
+    // Listeners are registered once per mount, whatever happens to the connection.
+    // Each one is typed by its entry above, so it can stand in for any typed listener.
+    Object.entries(listeners).forEach(([event, listener]) => socket.on(event as ServerEvent, listener as never))
+    socket.on('connect', joinMatch)
+    if (socket.connected) {
+      joinMatch()
+    }
+    
     // Clean up listeners when component unmounts
     return () => {
-      // Only clean up if we're truly unmounting the entire game component
-      if (document.hidden) { // Only disconnect when browser tab/window is being closed
-        console.log('Window is hidden, cleaning up game events')
-        socket.off('playerAssigned')
-        socket.off('gameState')
-        socket.off('playerPositionUpdate')
-        
-        if (hasJoinedRef.current && playerId) {
-          console.log('Sending explicit leaveGame on page unload')
-          socket.emit('leaveGame')
-        }
-      } else {
-        console.log('Component re-rendering, keeping socket connection and player state')
+      Object.entries(listeners).forEach(([event, listener]) => socket.off(event as ServerEvent, listener as never))
+      socket.off('connect', joinMatch)
+      
+      // Only leave the match when the browser tab/window is being closed
+      if (document.hidden && currentPlayerId()) {
+        console.log('Sending explicit leaveGame on page unload')
+        socket.emit('leaveGame')
       }
     }
-  }, [socket, setGameState, setPlayerId, updatePlayerPosition, playerId, clearPlayerId, shouldRejoin])
+  }, [socket, setGameState, setPlayerId, setRoomId, clearPlayerId, teleportLocalPlayer, addKill, addChatMessage, addAdminNotice, setConnectionError])
+  
+  // Play under our nickname once we have a player, and whenever it changes
+  const hasPlayer = !!playerId && !!gameState.players[playerId]
+  useEffect(() => {
+    if (!socket || !playerId || !hasPlayer || !nickname) return
+    
+    const sent = sentNicknameRef.current
+    if (sent?.playerId === playerId && sent.nickname === nickname) return
+    
+    socket.emit('setName', { name: nickname })
+    sentNicknameRef.current = { playerId, nickname }
+  }, [socket, playerId, hasPlayer, nickname])
   
   // Debug log when players change
   useEffect(() => {
@@ -152,7 +270,7 @@ const Game = ({ showDebug = false }) => {
     // If we have a player ID but it's not in the game state after socket is connected
     if (playerId && !gameState.players[playerId] && socket && socket.connected && reconnectionAttempts.current === 0) {
       console.log('Player ID not found in initial game state, attempting reconnection')
-      socket.emit('reconnectPlayer', { playerId })
+      requestReconnect(socket, playerId)
       reconnectionAttempts.current += 1
     }
   }, [gameState.players, playerId, socket])
@@ -168,24 +286,26 @@ const Game = ({ showDebug = false }) => {
       />
       
       <Arena />
+      <Berries />
+      <Snail />
+      <Gates />
       
-      {Object.entries(gameState.players).map(([id, player]) => {
-        // Type assertion to ensure TypeScript knows this is a PlayerData
-        const typedPlayer = player as PlayerData;
-        
-        return (
-          <Player
-            key={id}
-            id={id}
-            position={typedPlayer.position}
-            rotation={typedPlayer.rotation}
-            team={typedPlayer.team}
-            role={typedPlayer.role}
-            isLocalPlayer={id === playerId}
-            isActive={typedPlayer.isActive}
-          />
-        );
-      })}
+      {Object.entries(gameState.players).map(([id, player]) => (
+        <Player
+          key={id}
+          id={id}
+          name={player.name}
+          position={player.position}
+          rotation={player.rotation}
+          team={player.team}
+          role={player.role}
+          isLocalPlayer={id === playerId}
+          isActive={player.isActive}
+          isAlive={player.isAlive}
+          isCarryingBerry={Object.values(gameState.berries).some(berry => berry.carrierId === id)}
+          isRidingSnail={gameState.snail.riderId === id}
+        />
+      ))}
       
       {/* Debug information */}
       {(() => {
@@ -201,6 +321,8 @@ const Game = ({ showDebug = false }) => {
         return null;
       })()}
       
+      {spectating && <SpectatorCamera />}
+      
       {showDebug && <PhysicsDebugger />}
     </>
   )
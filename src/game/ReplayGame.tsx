@@ -0,0 +1,96 @@
+import { useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { Vector3 } from 'three'
+import { useGameStore } from '../store/gameStore'
+import { useReplayStore } from '../store/replayStore'
+import { replayStateAt } from './replay'
+import { updateChaseCamera } from './chaseCamera'
+import { Berries } from './components/Berries'
+import { Snail } from './components/Snail'
+import { Gates } from './components/Gates'
+import Arena from './scenes/Arena'
+import Player from './models/Player'
+
+// Where the camera sits when it isn't following anyone
+const OVERVIEW_POSITION = new Vector3(0, 35, 45)
+const ARENA_CENTER = new Vector3(0, 0, 0)
+
+/**
+ * ReplayGame
+ *
+ * Plays a recorded game back in the normal arena. Every frame it advances the
+ * playback clock, rebuilds the game state at that moment into the game store
+ * - which the arena, objectives and players already draw from - and moves the
+ * camera behind the followed player.
+ */
+const ReplayGame = () => {
+  const { gameState, setGameState } = useGameStore()
+  const { camera } = useThree()
+  // Playback time the game store was last updated for
+  const renderedTimeRef = useRef(-1)
+
+  useFrame((_, delta) => {
+    const { replay, time, playing, speed, followId, setTime, setPlaying } = useReplayStore.getState()
+    if (!replay) return
+
+    if (playing) {
+      const next = Math.min(time + delta * speed, replay.file.duration)
+      setTime(next)
+      // Stop at the end rather than looping
+      if (next >= replay.file.duration) {
+        setPlaying(false)
+      }
+    }
+
+    const now = useReplayStore.getState().time
+    if (now !== renderedTimeRef.current) {
+      renderedTimeRef.current = now
+      setGameState(replayStateAt(replay, now))
+    }
+
+    // Chase the followed player the way the local player's camera does
+    const followed = followId ? useGameStore.getState().gameState.players[followId] : undefined
+    if (followed) {
+      updateChaseCamera(camera, followed.position, followed.rotation[1], delta)
+    } else {
+      camera.position.lerp(OVERVIEW_POSITION, Math.min(1, delta * 2))
+      camera.lookAt(ARENA_CENTER)
+    }
+  })
+
+  return (
+    <>
+      <ambientLight intensity={0.7} />
+      <directionalLight
+        position={[10, 20, 10]}
+        intensity={1}
+        castShadow
+        shadow-mapSize={[2048, 2048]}
+      />
+
+      <Arena />
+      <Berries />
+      <Snail />
+      <Gates />
+
+      {Object.entries(gameState.players).map(([id, player]) => (
+        <Player
+          key={id}
+          id={id}
+          name={player.name}
+          position={player.position}
+          rotation={player.rotation}
+          team={player.team}
+          role={player.role}
+          isLocalPlayer={false}
+          isActive={player.isActive}
+          isAlive={player.isAlive}
+          isCarryingBerry={Object.values(gameState.berries).some(berry => berry.carrierId === id)}
+          isRidingSnail={gameState.snail.riderId === id}
+        />
+      ))}
+    </>
+  )
+}
+
+export default ReplayGame
@@ -0,0 +1,88 @@
+import { useEffect, useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { useKeyboardControls } from '@react-three/drei'
+import { Vector3 } from 'three'
+import { Controls } from '../main'
+import { useGameStore } from '../store/gameStore'
+import { useSpectatorStore } from '../store/spectatorStore'
+import { updateChaseCamera } from './chaseCamera'
+
+// Free camera flight
+const FREE_CAMERA = {
+  SPEED: 20,
+  TURN_SPEED: 1.5,
+  // How far below the horizon the free camera looks
+  TILT: 0.35
+}
+
+// The tactical view looks straight down on the middle of the arena
+const OVERHEAD_POSITION = new Vector3(0, 70, 0.01)
+const ARENA_CENTER = new Vector3(0, 0, 0)
+
+const UP = new Vector3(0, 1, 0)
+
+/**
+ * SpectatorCamera
+ *
+ * Drives the camera for spectators, who have no bee of their own to follow.
+ * Free mode flies it with the movement keys (W/S forward and back, A/D turn,
+ * Space and Shift up and down), follow mode chases a player the way their own
+ * camera does, and overhead mode gives a top-down tactical view.
+ */
+const SpectatorCamera = () => {
+  const { camera } = useThree()
+  const [, getKeys] = useKeyboardControls<Controls>()
+  const cameraMode = useSpectatorStore(state => state.cameraMode)
+  // Heading of the free camera
+  const freeYawRef = useRef(0)
+
+  // Pick up free flight from wherever the camera is, facing the same way
+  useEffect(() => {
+    if (cameraMode === 'free') {
+      const facing = new Vector3()
+      camera.getWorldDirection(facing)
+      freeYawRef.current = Math.atan2(-facing.x, -facing.z)
+    }
+  }, [cameraMode, camera])
+
+  useFrame((_, delta) => {
+    const { players } = useGameStore.getState().gameState
+    const { followId } = useSpectatorStore.getState()
+
+    if (cameraMode === 'follow') {
+      // Chase the chosen player, or anyone if they've left
+      const followed = (followId && players[followId]) || Object.values(players)[0]
+      if (followed) {
+        updateChaseCamera(camera, followed.position, followed.rotation[1], delta)
+        return
+      }
+    }
+
+    if (cameraMode === 'free') {
+      const { forward, backward, left, right, jump, action } = getKeys()
+      if (left) freeYawRef.current += FREE_CAMERA.TURN_SPEED * delta
+      if (right) freeYawRef.current -= FREE_CAMERA.TURN_SPEED * delta
+
+      const direction = new Vector3(0, 0, -1).applyAxisAngle(UP, freeYawRef.current)
+      const step = FREE_CAMERA.SPEED * delta
+      if (forward) camera.position.addScaledVector(direction, step)
+      if (backward) camera.position.addScaledVector(direction, -step)
+      if (jump) camera.position.y += step
+      if (action) camera.position.y = Math.max(1, camera.position.y - step)
+
+      camera.lookAt(
+        camera.position.x + direction.x,
+        camera.position.y - FREE_CAMERA.TILT,
+        camera.position.z + direction.z
+      )
+      return
+    }
+
+    camera.position.lerp(OVERHEAD_POSITION, Math.min(1, delta * 2))
+    camera.lookAt(ARENA_CENTER)
+  })
+
+  return null
+}
+
+export default SpectatorCamera
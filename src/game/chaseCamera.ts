@@ -0,0 +1,28 @@
+import { Camera, Vector3 } from 'three'
+import { Vector3Tuple } from '../../shared/protocol'
+
+const UP = new Vector3(0, 1, 0)
+
+/**
+ * Move a camera toward its spot behind and above a flying bee, with a little
+ * lag to give a sense of momentum, and look slightly ahead of it.
+ *
+ * `roll` and `pitch` are the bee's banking and climb, which swing the camera
+ * out on turns and tilt the view on climbs.
+ */
+export const updateChaseCamera = (
+  camera: Camera,
+  [x, y, z]: Vector3Tuple,
+  yaw: number,
+  delta: number,
+  roll = 0,
+  pitch = 0
+) => {
+  // Banking effect in the camera
+  const idealOffset = new Vector3(roll * 3, 7, 15).applyAxisAngle(UP, yaw)
+  camera.position.lerp(new Vector3(x + idealOffset.x, y + idealOffset.y, z + idealOffset.z), Math.min(1, delta * 3))
+
+  // Look ahead slightly in the direction of travel
+  const direction = new Vector3(0, 0, -1).applyAxisAngle(UP, yaw)
+  camera.lookAt(x + direction.x * 5, y + 2 - pitch * 5, z + direction.z * 5)
+}
@@ -0,0 +1,26 @@
+import { useGameStore } from '../../store/gameStore'
+
+export const BERRY_COLOR = '#aa3322'
+
+/**
+ * Berries
+ *
+ * Renders the berries lying in the field from the server's game state.
+ * Carried berries are drawn by the Player carrying them instead.
+ */
+export const Berries = () => {
+  const berries = useGameStore(state => state.gameState.berries)
+
+  return (
+    <group>
+      {Object.values(berries)
+        .filter(berry => !berry.carrierId)
+        .map(berry => (
+          <mesh key={berry.id} position={berry.position} receiveShadow castShadow>
+            <sphereGeometry args={[0.5, 16, 16]} />
+            <meshStandardMaterial color={BERRY_COLOR} />
+          </mesh>
+        ))}
+    </group>
+  )
+}
@@ -0,0 +1,57 @@
+import { useGameStore } from '../../store/gameStore'
+
+// Keep in sync with GATE_USE_DURATION on the server (server/src/game/gates.ts)
+const GATE_USE_DURATION = 2
+
+const GATE_COLORS = {
+  none: '#777777',
+  blue: '#4455ff',
+  gold: '#ffcc22'
+}
+
+/**
+ * Gates
+ *
+ * Renders the warrior gates in their owning team's color. While a worker is
+ * turning into a soldier, a bar under the arch fills up.
+ */
+export const Gates = () => {
+  const gates = useGameStore(state => state.gameState.gates)
+
+  return (
+    <group>
+      {Object.values(gates).map(gate => {
+        const color = GATE_COLORS[gate.team ?? 'none']
+        const progress = gate.occupantId ? Math.min(1, gate.useTime / GATE_USE_DURATION) : 0
+
+        return (
+          <group key={gate.id} position={gate.position}>
+            {/* Pillars */}
+            <mesh position={[-1.2, 0, 0]} castShadow>
+              <boxGeometry args={[0.3, 3, 0.3]} />
+              <meshStandardMaterial color={color} />
+            </mesh>
+            <mesh position={[1.2, 0, 0]} castShadow>
+              <boxGeometry args={[0.3, 3, 0.3]} />
+              <meshStandardMaterial color={color} />
+            </mesh>
+
+            {/* Arch */}
+            <mesh position={[0, 1.6, 0]} castShadow>
+              <boxGeometry args={[2.7, 0.3, 0.3]} />
+              <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.3} />
+            </mesh>
+
+            {/* Use progress */}
+            {progress > 0 && (
+              <mesh position={[-1.05 + 1.05 * progress, -1.6, 0]}>
+                <boxGeometry args={[2.1 * progress, 0.15, 0.15]} />
+                <meshBasicMaterial color="#ffffff" />
+              </mesh>
+            )}
+          </group>
+        )
+      })}
+    </group>
+  )
+}
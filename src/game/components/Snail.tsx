@@ -0,0 +1,84 @@
+import { useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Group } from 'three'
+import { useGameStore } from '../../store/gameStore'
+import { SNAIL_TRACK, snailRenderPosition, trackToWorldX } from '../snailTrack'
+
+// How quickly the rendered snail catches up with the server position
+const SNAIL_SMOOTHING = 4
+
+const SHELL_COLORS = {
+  none: '#8a5a2b',
+  blue: '#3355cc',
+  gold: '#ccaa22'
+}
+
+/**
+ * Snail
+ *
+ * Renders the snail on the snail track, interpolating between the track
+ * positions the server sends so it glides instead of stepping.
+ */
+export const Snail = () => {
+  const groupRef = useRef<Group>(null)
+  const renderedTrackPosition = useRef<number | null>(null)
+  const snailPosition = useGameStore(state => state.gameState.snailPosition)
+  const riderTeam = useGameStore(state => {
+    const { riderId } = state.gameState.snail
+    return riderId ? state.gameState.players[riderId]?.team ?? null : null
+  })
+  const sides = useGameStore(state => state.gameState.sides)
+
+  useFrame((_, delta) => {
+    if (!groupRef.current) return
+
+    // Ease toward the authoritative position (snap on the first frame or after a reset)
+    const current = renderedTrackPosition.current
+    const next = current === null || Math.abs(snailPosition - current) > 20
+      ? snailPosition
+      : current + (snailPosition - current) * Math.min(1, delta * SNAIL_SMOOTHING)
+    renderedTrackPosition.current = next
+
+    snailRenderPosition.set(trackToWorldX(next), SNAIL_TRACK.y, SNAIL_TRACK.z)
+    groupRef.current.position.copy(snailRenderPosition)
+
+    // Face the direction the rider is pushing - away from their own side
+    groupRef.current.rotation.y = riderTeam && sides[riderTeam] === 'right' ? Math.PI : 0
+  })
+
+  const shellColor = SHELL_COLORS[riderTeam ?? 'none']
+
+  return (
+    <group ref={groupRef}>
+      {/* Body */}
+      <mesh position={[0.2, -0.3, 0]} scale={[2.2, 0.5, 0.8]} castShadow>
+        <sphereGeometry args={[0.8, 16, 16]} />
+        <meshStandardMaterial color="#c9b27c" />
+      </mesh>
+
+      {/* Shell */}
+      <mesh position={[-0.4, 0.4, 0]} castShadow>
+        <sphereGeometry args={[0.9, 16, 16]} />
+        <meshStandardMaterial color={shellColor} />
+      </mesh>
+      <mesh position={[-0.4, 0.4, 0]} rotation={[0, 0, 0]}>
+        <torusGeometry args={[0.55, 0.15, 8, 24]} />
+        <meshStandardMaterial color="#5a3a1b" />
+      </mesh>
+
+      {/* Eye stalks */}
+      {[-0.25, 0.25].map(offset => (
+        <group key={offset} position={[1.6, 0.1, offset]}>
+          <mesh position={[0, 0.3, 0]}>
+            <cylinderGeometry args={[0.05, 0.05, 0.6, 6]} />
+            <meshStandardMaterial color="#c9b27c" />
+          </mesh>
+          <mesh position={[0, 0.65, 0]}>
+            <sphereGeometry args={[0.1, 8, 8]} />
+            <meshStandardMaterial color="#111111" />
+          </mesh>
+        </group>
+      ))}
+    </group>
+  )
+}
@@ -0,0 +1,95 @@
+import { Vector3Tuple } from '../../shared/protocol'
+import { GameSocket } from '../networking/useSocketConnection'
+import { useGameStore } from '../store/gameStore'
+import { snailRenderPosition } from './snailTrack'
+
+// Keep these in sync with the server's berry rules (server/src/game/berries.ts).
+// They are slightly tighter than the server's so requests aren't rejected at the edge.
+const BERRY_PICKUP_RADIUS = 2
+const HIVE_DEPOSIT_RADIUS = 3
+const SNAIL_MOUNT_RADIUS = 2.5
+const GATE_RADIUS = 2
+
+// Hives on each side of the arena - teams swap sides between games
+export const HIVE_POSITIONS = {
+  left: [-14, 2.5, -6],
+  right: [14, 2.5, 6]
+} as const
+
+// Minimum time between two requests of the same kind
+const REQUEST_COOLDOWN_MS = 250
+
+const lastRequestAt: Record<string, number> = {}
+
+const canRequest = (kind: string, now: number) => {
+  if (now - (lastRequestAt[kind] ?? 0) < REQUEST_COOLDOWN_MS) return false
+  lastRequestAt[kind] = now
+  return true
+}
+
+const distance = (a: readonly number[], b: readonly number[]) =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+
+/**
+ * Ask the server to run objective interactions the local player is in range of.
+ *
+ * Called every frame with the local player's position. Berries are picked up
+ * and deposited and gates are captured and entered automatically, the snail
+ * is mounted and dismounted with the interact key. The server has the final say - it re-validates everything
+ * against the last position we sent.
+ */
+export const checkObjectiveInteractions = (
+  socket: GameSocket,
+  playerId: string,
+  position: Vector3Tuple,
+  now: number,
+  interactPressed: boolean
+) => {
+  const { gameState } = useGameStore.getState()
+  const player = gameState.players[playerId]
+  if (!player || !player.isActive || gameState.status !== 'playing') return
+
+  const gates = Object.values(gameState.gates)
+  
+  // Queens claim any gate they touch that isn't already theirs
+  if (player.role === 'queen' && player.isAlive) {
+    const gate = gates.find(g => g.team !== player.team && distance(position, g.position) <= GATE_RADIUS)
+    if (gate && canRequest('captureGate', now)) {
+      socket.emit('captureGate', { gateId: gate.id })
+    }
+  }
+  
+  if (player.role === 'worker') {
+    const berries = Object.values(gameState.berries)
+    const carriedBerry = berries.find(berry => berry.carrierId === playerId)
+    const { snail } = gameState
+
+    // Toggle riding (or contesting) the snail
+    if (interactPressed) {
+      if (snail.riderId === playerId || snail.contesterId === playerId) {
+        socket.emit('dismountSnail')
+      } else if (!carriedBerry && snailRenderPosition.distanceTo({ x: position[0], y: position[1], z: position[2] }) <= SNAIL_MOUNT_RADIUS) {
+        socket.emit('mountSnail')
+      }
+    }
+
+    if (carriedBerry) {
+      // Step into one of our gates to spend the berry on becoming a soldier
+      const gate = gates.find(g => g.team === player.team && distance(position, g.position) <= GATE_RADIUS)
+      if (gate && !gate.occupantId && canRequest('enterGate', now)) {
+        socket.emit('enterGate', { gateId: gate.id })
+      }
+      
+      // Deliver the berry once we reach our own hive
+      if (distance(position, HIVE_POSITIONS[gameState.sides[player.team]]) <= HIVE_DEPOSIT_RADIUS && canRequest('depositBerry', now)) {
+        socket.emit('depositBerry')
+      }
+    } else {
+      // Grab the first free berry we fly through
+      const berry = berries.find(b => !b.carrierId && distance(position, b.position) <= BERRY_PICKUP_RADIUS)
+      if (berry && canRequest('collectBerry', now)) {
+        socket.emit('collectBerry', { berryId: berry.id })
+      }
+    }
+  }
+}
@@ -1,36 +1,30 @@
 import { useRef, useEffect, useState, useMemo } from 'react'
 import { useFrame, useThree } from '@react-three/fiber'
-import { useKeyboardControls, useAnimations, useGLTF } from '@react-three/drei'
+import { useKeyboardControls, useAnimations, useGLTF, Html } from '@react-three/drei'
 import { RigidBody, CuboidCollider } from '@react-three/rapier'
 import { Vector3, Quaternion, Euler, MeshStandardMaterial, Group, Mesh, ShapeGeometry, Shape, Path, DoubleSide } from 'three'
 import { useSocketConnection } from '../../networking/useSocketConnection'
 import { Controls } from '../../main'
+import { checkObjectiveInteractions } from '../interactions'
+import { BERRY_COLOR } from '../components/Berries'
+import { SNAIL_RIDER_HEIGHT, snailRenderPosition } from '../snailTrack'
+import { updateChaseCamera } from '../chaseCamera'
+import { useGameStore } from '../../store/gameStore'
+import { Role, Team, Vector3Tuple } from '../../../shared/protocol'
+import { ARENA_BOUNDS, BEE_BODY, FLIGHT_SETTINGS, ROLE_MAX_VELOCITY } from '../../../shared/flight'
 
 interface PlayerProps {
   id: string
-  position: [number, number, number]
-  rotation: [number, number, number]
-  team: 'blue' | 'gold'
-  role: 'queen' | 'worker' | 'soldier'
+  name: string
+  position: Vector3Tuple
+  rotation: Vector3Tuple
+  team: Team
+  role: Role
   isLocalPlayer: boolean
   isActive: boolean
-}
-
-// Flight dynamics settings
-const FLIGHT_SETTINGS = {
-  FORWARD_SPEED: 10,
-  TURN_SPEED: 3.5,
-  TILT_FACTOR: 0.4,
-  ROLL_FACTOR: 0.6,
-  PITCH_FACTOR: 0.4,
-  ASCEND_SPEED: 8,
-  DESCEND_SPEED: 6,
-  HOVER_AMPLITUDE: 0.1,
-  HOVER_FREQUENCY: 2,
-  MAX_VELOCITY: 20,
-  DRAG_FACTOR: 0.95,
-  LEVELING_FACTOR: 0.08, // How quickly the bee levels out when not turning
-  WING_FLAP_SPEED: 30
+  isAlive: boolean
+  isCarryingBerry: boolean
+  isRidingSnail: boolean
 }
 
 // Character sizes for different roles
@@ -54,8 +48,8 @@ const BODY_COLORS = {
 
 // Simple bee model component
 interface BeeModelProps {
-  team: 'blue' | 'gold';
-  role: 'queen' | 'worker' | 'soldier';
+  team: Team;
+  role: Role;
   isFlying: boolean;
 }
 
@@ -254,12 +248,16 @@ const BeeModel = ({ team, role, isFlying }: BeeModelProps) => {
 
 const Player = ({
   id,
+  name,
   position,
   rotation,
   team,
   role,
   isLocalPlayer,
-  isActive
+  isActive,
+  isAlive,
+  isCarryingBerry,
+  isRidingSnail
 }: PlayerProps) => {
   // Using any here to avoid TypeScript errors with RigidBody methods
   const bodyRef = useRef<any>(null)
@@ -274,6 +272,10 @@ const Player = ({
   const remotePositionChangeRef = useRef(false)
   const velocityRef = useRef(new Vector3(0, 0, 0))
   const isFlying = useRef(false)
+  const wasInteractPressed = useRef(false)
+  const wasAttackPressed = useRef(false)
+  // Last server-ordered teleport we applied, so old ones aren't replayed on mount
+  const lastTeleportIdRef = useRef(useGameStore.getState().teleport?.id ?? 0)
   
   // Create a flight dynamics state
   const flightDynamics = useRef({
@@ -371,8 +373,39 @@ const Player = ({
       return;
     }
     
+    // Apply server-ordered moves (e.g. respawning after the snail ate us)
+    const { teleport } = useGameStore.getState()
+    if (teleport && teleport.id !== lastTeleportIdRef.current) {
+      lastTeleportIdRef.current = teleport.id;
+      const [tx, ty, tz] = teleport.position;
+      bodyRef.current.setTranslation({ x: tx, y: ty, z: tz }, true);
+      bodyRef.current.setLinvel({ x: 0, y: 0, z: 0 }, true);
+    }
+    
+    // The dead wait for the server to respawn them
+    if (!isAlive) {
+      return;
+    }
+    
+    // Hold still while an admin has the match paused
+    if (useGameStore.getState().gameState.paused) {
+      bodyRef.current.setLinvel({ x: 0, y: 0, z: 0 }, true);
+      return;
+    }
+    
     const keys = getKeys()
-    const { forward, backward, left, right, jump, shift } = keys
+    const { forward, backward, left, right, jump, shift, interact, attack } = keys
+    
+    // Only react to the moment the interact and attack keys go down
+    const interactPressed = interact && !wasInteractPressed.current;
+    wasInteractPressed.current = interact;
+    const attackPressed = attack && !wasAttackPressed.current;
+    wasAttackPressed.current = attack;
+    
+    // Strike at whatever is in front of us - the server checks range and facing
+    if (attackPressed && socket && role !== 'worker') {
+      socket.emit('attack');
+    }
     
     // Set flying state for animation
     isFlying.current = forward || backward || left || right || jump;
@@ -438,19 +471,40 @@ const Player = ({
     // Apply impulse for movement
     bodyRef.current.applyImpulse(impulse, true);
     
-    // Limit maximum velocity
+    // Limit maximum velocity - the server holds each role to its top speed
     const currentVel = bodyRef.current.linvel();
     const speed = Math.sqrt(currentVel.x * currentVel.x + currentVel.z * currentVel.z);
+    const maxSpeed = ROLE_MAX_VELOCITY[role];
+    const maxVertical = FLIGHT_SETTINGS.MAX_VERTICAL_VELOCITY;
     
-    if (speed > FLIGHT_SETTINGS.MAX_VELOCITY) {
-      const scaleFactor = FLIGHT_SETTINGS.MAX_VELOCITY / speed;
+    if (speed > maxSpeed || Math.abs(currentVel.y) > maxVertical) {
+      const scaleFactor = speed > maxSpeed ? maxSpeed / speed : 1;
       bodyRef.current.setLinvel({
         x: currentVel.x * scaleFactor,
-        y: currentVel.y,
+        y: Math.max(-maxVertical, Math.min(maxVertical, currentVel.y)),
         z: currentVel.z * scaleFactor
       });
     }
     
+    // Stay between the floor and the top of the walls - the server refuses positions outside them
+    const translation = bodyRef.current.translation();
+    const altitude = Math.max(ARENA_BOUNDS.minY, Math.min(ARENA_BOUNDS.maxY, translation.y));
+    if (altitude !== translation.y) {
+      const clampedVel = bodyRef.current.linvel();
+      bodyRef.current.setTranslation({ x: translation.x, y: altitude, z: translation.z }, true);
+      bodyRef.current.setLinvel({ x: clampedVel.x, y: 0, z: clampedVel.z }, true);
+    }
+    
+    // Riders sit on the snail, which moves on its own
+    if (isRidingSnail) {
+      bodyRef.current.setTranslation({
+        x: snailRenderPosition.x,
+        y: snailRenderPosition.y + SNAIL_RIDER_HEIGHT,
+        z: snailRenderPosition.z
+      }, true);
+      bodyRef.current.setLinvel({ x: 0, y: 0, z: 0 }, true);
+    }
+    
     // Update rotation state
     setPlayerRotation(playerRotation);
     
@@ -475,33 +529,14 @@ const Player = ({
     
     // Update camera for a more dynamic flight feel
     if (isLocalPlayer) {
-      // Dynamic camera that follows with slight lag, giving sense of momentum
-      const idealOffset = new Vector3(0, 7, 15);
-      
-      // Banking effect in the camera
-      idealOffset.x += flightDynamics.current.roll * 3;
-      
-      // Apply the current rotation to the offset
-      idealOffset.applyAxisAngle(new Vector3(0, 1, 0), playerRotation.y);
-      
-      // Calculate the target camera position
-      const targetPosition = new Vector3(
-        worldPosition.x + idealOffset.x,
-        worldPosition.y + idealOffset.y, 
-        worldPosition.z + idealOffset.z
-      );
-      
-      // Smoothly move the camera
-      camera.position.lerp(targetPosition, delta * 3);
-      
-      // Look ahead slightly when moving to see where you're going
-      const lookAtPosition = new Vector3(
-        worldPosition.x + direction.x * 5,  // Look ahead in the direction of travel
-        worldPosition.y + 2 - flightDynamics.current.pitch * 5, // Adjust for pitch
-        worldPosition.z + direction.z * 5
+      updateChaseCamera(
+        camera,
+        [worldPosition.x, worldPosition.y, worldPosition.z],
+        playerRotation.y,
+        delta,
+        flightDynamics.current.roll,
+        flightDynamics.current.pitch
       );
-      
-      camera.lookAt(lookAtPosition);
     }
     
     // Send position update to server - throttled to reduce network traffic
@@ -538,6 +573,11 @@ const Player = ({
         });
       }
     }
+    
+    // Pick up and deposit berries, and get on or off the snail
+    if (socket) {
+      checkObjectiveInteractions(socket, id, [worldPosition.x, worldPosition.y, worldPosition.z], now, interactPressed);
+    }
   })
   
   // Player opacity based on active state
@@ -549,16 +589,32 @@ const Player = ({
         ref={bodyRef}
         position={position}
         type={isLocalPlayer ? 'dynamic' : 'kinematicPosition'}
-        linearDamping={1.5}
+        linearDamping={BEE_BODY.linearDamping}
         angularDamping={2.0}
         enabledRotations={[false, false, false]} // Lock physical rotations, we'll handle visual rotation
         colliders={false} // We'll add our own collider
-        mass={1}
+        mass={BEE_BODY.mass}
       >
-        <group ref={modelRef}>
-          <BeeModel team={team} role={role} isFlying={isFlying.current} />
+        <group ref={modelRef} visible={isAlive}>
+          {/* Keyed by role so the model is rebuilt when a worker becomes a soldier */}
+          <BeeModel key={role} team={team} role={role} isFlying={isFlying.current} />
         </group>
         
+        {/* Carried berry hangs below the bee */}
+        {isCarryingBerry && (
+          <mesh position={[0, -0.9, 0]} castShadow>
+            <sphereGeometry args={[0.4, 16, 16]} />
+            <meshStandardMaterial color={BERRY_COLOR} />
+          </mesh>
+        )}
+        
+        {/* Name tag over other bees, so you can tell who's who */}
+        {!isLocalPlayer && isAlive && (
+          <Html position={[0, 1.4, 0]} center distanceFactor={12} zIndexRange={[10, 0]}>
+            <div className={`name-tag name-tag-${team}`}>{name}</div>
+          </Html>
+        )}
+        
         {/* Smaller collider for better physics */}
         <CuboidCollider args={[0.6, 0.6, 0.6]} />
       </RigidBody>
@@ -0,0 +1,247 @@
+import { GameState, Team, Vector3Tuple } from '../../shared/protocol'
+import { PlayerFrame, REPLAY_FORMAT_VERSION, ReplayEvent, ReplayFile } from '../../shared/replay'
+
+// A position sample from the replay
+type FrameEvent = Extract<ReplayEvent, { type: 'frame' }>
+
+// Something worth jumping to while watching a replay
+export interface ReplayMarker {
+  t: number
+  label: string
+  // Player the camera should follow when jumping here
+  playerId: string
+}
+
+// A replay file split up for playback
+export interface LoadedReplay {
+  file: ReplayFile
+  // Position samples, in time order
+  frames: FrameEvent[]
+  // Everything else, in time order
+  events: Exclude<ReplayEvent, FrameEvent>[]
+  markers: ReplayMarker[]
+}
+
+// Short name for a player, e.g. "Bee 3f2a (gold worker)"
+export const describeReplayPlayer = (replay: LoadedReplay, playerId: string) => {
+  const join = replay.events.find(event => event.type === 'join' && event.playerId === playerId)
+  if (join?.type !== 'join') return playerId.slice(0, 5)
+  return `${join.name} (${join.team} ${join.role})`
+}
+
+export const loadReplay = (file: ReplayFile): LoadedReplay => {
+  if (file.version !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay version ${file.version} (this client reads v${REPLAY_FORMAT_VERSION})`)
+  }
+
+  const frames: FrameEvent[] = []
+  const events: LoadedReplay['events'] = []
+  for (const event of file.events) {
+    if (event.type === 'frame') {
+      frames.push(event)
+    } else {
+      events.push(event)
+    }
+  }
+
+  const replay: LoadedReplay = { file, frames, events, markers: [] }
+  for (const event of events) {
+    if (event.type === 'kill') {
+      replay.markers.push({
+        t: event.t,
+        label: `${describeReplayPlayer(replay, event.attackerId)} killed ${describeReplayPlayer(replay, event.victimId)}`,
+        playerId: event.attackerId
+      })
+    } else if (event.type === 'berryPickup') {
+      replay.markers.push({ t: event.t, label: `${describeReplayPlayer(replay, event.playerId)} picked up a berry`, playerId: event.playerId })
+    } else if (event.type === 'berryDeposit') {
+      replay.markers.push({ t: event.t, label: `${describeReplayPlayer(replay, event.playerId)} scored a berry`, playerId: event.playerId })
+    }
+  }
+  return replay
+}
+
+// Read a replay saved by the server, gzipped or not
+export const parseReplay = async (data: Blob, gzipped: boolean): Promise<LoadedReplay> => {
+  const stream = gzipped ? data.stream().pipeThrough(new DecompressionStream('gzip')) : data.stream()
+  return loadReplay(await new Response(stream).json())
+}
+
+const lerp = (from: number, to: number, amount: number) => from + (to - from) * amount
+
+// Turn the short way round between two headings
+const lerpAngle = (from: number, to: number, amount: number) => {
+  const difference = Math.atan2(Math.sin(to - from), Math.cos(to - from))
+  return from + difference * amount
+}
+
+// Index of the last frame at or before `time`, or -1 if there is none yet
+const frameIndexAt = (frames: FrameEvent[], time: number) => {
+  let low = 0
+  let high = frames.length - 1
+  let found = -1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (frames[middle].t <= time) {
+      found = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  return found
+}
+
+/**
+ * Rebuild the game state at a moment of a replay, so the normal scene can draw it.
+ *
+ * Events are applied from the start every time, which keeps scrubbing
+ * backwards trivial - there are only a few hundred of them in a game.
+ * Positions are interpolated between the samples either side of `time`.
+ */
+export const replayStateAt = (replay: LoadedReplay, time: number): GameState => {
+  const { file } = replay
+  const state: GameState = {
+    status: 'playing',
+    countdown: 0,
+    matchTime: time,
+    players: {},
+    blueScore: 0,
+    goldScore: 0,
+    blueQueenAlive: true,
+    goldQueenAlive: true,
+    snailPosition: 50,
+    snail: { riderId: null, contesterId: null, contestTime: 0, digestTime: 0 },
+    berries: structuredClone(file.berries),
+    gates: structuredClone(file.gates),
+    berryCount: { blue: 0, gold: 0 },
+    result: null,
+    rematchVotes: [],
+    swapRequests: [],
+    spectatorCount: 0,
+    map: file.map,
+    sides: file.sides,
+    series: { bestOf: 1, gameNumber: file.gameNumber, wins: { blue: 0, gold: 0 }, winner: null, nextGameIn: 0 },
+    rules: file.rules,
+    paused: false
+  }
+
+  for (const event of replay.events) {
+    if (event.t > time) break
+
+    switch (event.type) {
+      case 'join':
+        state.players[event.playerId] = {
+          id: event.playerId,
+          name: event.name,
+          position: [0, 5, 0],
+          rotation: [0, 0, 0],
+          team: event.team,
+          role: event.role,
+          isActive: true,
+          isAlive: true,
+          respawnTime: 0,
+          isReady: true,
+          isBot: event.isBot
+        }
+        break
+      case 'leave':
+        delete state.players[event.playerId]
+        break
+      case 'role':
+        if (state.players[event.playerId]) {
+          state.players[event.playerId].team = event.team
+          state.players[event.playerId].role = event.role
+        }
+        break
+      case 'berryPickup':
+        if (state.berries[event.berryId]) {
+          state.berries[event.berryId].carrierId = event.playerId
+        }
+        break
+      case 'berryDeposit':
+        delete state.berries[event.berryId]
+        state.berryCount[event.team]++
+        break
+      case 'berryDrop':
+        if (state.berries[event.berryId]) {
+          state.berries[event.berryId].carrierId = null
+          state.berries[event.berryId].position = event.position
+        }
+        break
+      case 'berrySpent':
+        delete state.berries[event.berryId]
+        break
+      case 'snailRider':
+        state.snail.riderId = event.riderId
+        break
+      case 'gateCaptured':
+        if (state.gates[event.gateId]) {
+          state.gates[event.gateId].team = event.team
+        }
+        break
+      case 'kill':
+        if (state.players[event.victimId]) {
+          state.players[event.victimId].isAlive = false
+        }
+        if (event.victimRole === 'queen') {
+          setQueenAlive(state, state.players[event.victimId]?.team, false)
+        }
+        break
+      case 'respawn': {
+        const player = state.players[event.playerId]
+        if (player) {
+          player.isAlive = true
+          if (player.role === 'queen') {
+            setQueenAlive(state, player.team, true)
+          }
+        }
+        break
+      }
+      case 'queenDeath':
+        // A dead queen scores for the other team
+        if (event.team === 'blue') {
+          state.goldScore = event.queenKills
+        } else {
+          state.blueScore = event.queenKills
+        }
+        break
+      case 'gameOver':
+        break
+    }
+  }
+
+  applyFrames(replay, state, time)
+  return state
+}
+
+const setQueenAlive = (state: GameState, team: Team | undefined, alive: boolean) => {
+  if (team === 'blue') {
+    state.blueQueenAlive = alive
+  } else if (team === 'gold') {
+    state.goldQueenAlive = alive
+  }
+}
+
+// Move everyone to where they were at `time`
+const applyFrames = (replay: LoadedReplay, state: GameState, time: number) => {
+  if (replay.frames.length === 0) return
+
+  // Before the first sample, everyone is where it puts them
+  const index = Math.max(0, frameIndexAt(replay.frames, time))
+  const before = replay.frames[index]
+  const after = replay.frames[index + 1] ?? before
+  const amount = after.t > before.t ? Math.max(0, Math.min(1, (time - before.t) / (after.t - before.t))) : 0
+
+  state.snailPosition = lerp(before.snail, after.snail, amount)
+
+  for (const player of Object.values(state.players)) {
+    const from = before.players[player.id]
+    if (!from) continue
+    const to: PlayerFrame = after.players[player.id] ?? from
+
+    const position: Vector3Tuple = [lerp(from[0], to[0], amount), lerp(from[1], to[1], amount), lerp(from[2], to[2], amount)]
+    player.position = position
+    player.rotation = [0, lerpAngle(from[3], to[3], amount), 0]
+  }
+}
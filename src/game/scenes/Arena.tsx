@@ -3,6 +3,18 @@ import { useFrame } from '@react-three/fiber'
 import { RigidBody, CuboidCollider } from '@react-three/rapier'
 import { Text3D, Center, useTexture, Environment } from '@react-three/drei'
 import * as THREE from 'three'
+import { useGameStore } from '../../store/gameStore'
+
+// Base and hive colors - they follow their team when teams swap sides between games
+const TEAM_BASE_COLORS = {
+  blue: '#1a3a8a',
+  gold: '#8a7a1a'
+}
+
+const TEAM_LABEL_COLORS = {
+  blue: '#4455ff',
+  gold: '#ffcc22'
+}
 
 // Create a grid floor for visual scale
 const GridFloor = ({ size = 200, divisions = 40, color1 = '#1a1a1a', color2 = '#222222' }) => {
@@ -73,6 +85,9 @@ const DecorativeElements = ({ count = 40, spread = 100 }: DecorativeElementsProp
 
 const Arena = () => {
   const floorRef = useRef(null)
+  const sides = useGameStore(state => state.gameState.sides)
+  const leftTeam = sides.blue === 'left' ? 'blue' : 'gold'
+  const rightTeam = leftTeam === 'blue' ? 'gold' : 'blue'
   
   // Platform layout based on original Killer Queen but with larger infinite-style arena
   return (
@@ -104,19 +119,19 @@ const Arena = () => {
         {/* Add decorative elements across the arena */}
         <DecorativeElements count={40} spread={180} />
 
-        {/* Blue Team Base */}
+        {/* Left Team Base (blue in odd games of a series) */}
         <RigidBody type="fixed" position={[-15, 2, 0]} restitution={0.2} friction={1}>
           <mesh receiveShadow castShadow>
             <boxGeometry args={[8, 4, 15]} />
-            <meshStandardMaterial color="#1a3a8a" />
+            <meshStandardMaterial color={TEAM_BASE_COLORS[leftTeam]} />
           </mesh>
         </RigidBody>
 
-        {/* Gold Team Base */}
+        {/* Right Team Base */}
         <RigidBody type="fixed" position={[15, 2, 0]} restitution={0.2} friction={1}>
           <mesh receiveShadow castShadow>
             <boxGeometry args={[8, 4, 15]} />
-            <meshStandardMaterial color="#8a7a1a" />
+            <meshStandardMaterial color={TEAM_BASE_COLORS[rightTeam]} />
           </mesh>
         </RigidBody>
 
@@ -152,59 +167,43 @@ const Arena = () => {
           </mesh>
         </RigidBody>
 
-        {/* Berry deposits */}
+        {/* Team hives - workers deposit carried berries here */}
         <RigidBody type="fixed" position={[-14, 2.5, -6]} restitution={0.2} friction={1}>
           <mesh receiveShadow castShadow>
             <cylinderGeometry args={[1.5, 1.5, 1, 32]} />
-            <meshStandardMaterial color="#1a3a8a" />
+            <meshStandardMaterial color={TEAM_BASE_COLORS[leftTeam]} />
           </mesh>
         </RigidBody>
 
         <RigidBody type="fixed" position={[14, 2.5, 6]} restitution={0.2} friction={1}>
           <mesh receiveShadow castShadow>
             <cylinderGeometry args={[1.5, 1.5, 1, 32]} />
-            <meshStandardMaterial color="#8a7a1a" />
+            <meshStandardMaterial color={TEAM_BASE_COLORS[rightTeam]} />
           </mesh>
         </RigidBody>
 
-        {/* Berry spawns */}
-        {Array.from({ length: 5 }).map((_, i) => (
-          <RigidBody
-            key={`berry-${i}`}
-            type="fixed"
-            position={[-5 + i * 2.5, 0.6, -5]}
-            restitution={0.2}
-            friction={1}
-          >
-            <mesh receiveShadow castShadow>
-              <sphereGeometry args={[0.5, 16, 16]} />
-              <meshStandardMaterial color="#aa3322" />
-            </mesh>
-          </RigidBody>
-        ))}
-
         {/* Team labels */}
-        <Center position={[-15, 6, 0]}>
+        <Center key={leftTeam} position={[-15, 6, 0]}>
           <Text3D
             font="/fonts/helvetiker_regular.typeface.json"
             size={1.2}
             height={0.2}
             curveSegments={12}
           >
-            BLUE
-            <meshStandardMaterial color="#4455ff" />
+            {leftTeam.toUpperCase()}
+            <meshStandardMaterial color={TEAM_LABEL_COLORS[leftTeam]} />
           </Text3D>
         </Center>
 
-        <Center position={[15, 6, 0]}>
+        <Center key={rightTeam} position={[15, 6, 0]}>
           <Text3D
             font="/fonts/helvetiker_regular.typeface.json"
             size={1.2}
             height={0.2}
             curveSegments={12}
           >
-            GOLD
-            <meshStandardMaterial color="#ffcc22" />
+            {rightTeam.toUpperCase()}
+            <meshStandardMaterial color={TEAM_LABEL_COLORS[rightTeam]} />
           </Text3D>
         </Center>
 
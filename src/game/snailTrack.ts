@@ -0,0 +1,18 @@
+import { Vector3 } from 'three'
+
+// Keep in sync with SNAIL_TRACK on the server (server/src/game/arena.ts)
+export const SNAIL_TRACK = {
+  startX: -15,
+  endX: 15,
+  y: 0.8,
+  z: 8
+}
+
+// Height of the rider's seat above the snail
+export const SNAIL_RIDER_HEIGHT = 1.2
+
+export const trackToWorldX = (trackPosition: number) =>
+  SNAIL_TRACK.startX + (SNAIL_TRACK.endX - SNAIL_TRACK.startX) * (trackPosition / 100)
+
+// Where the snail is currently drawn - riders read this to stay in the saddle
+export const snailRenderPosition = new Vector3(trackToWorldX(50), SNAIL_TRACK.y, SNAIL_TRACK.z)
@@ -11,7 +11,9 @@ export enum Controls {
   left = 'left',
   right = 'right',
   jump = 'jump',
-  action = 'action'
+  action = 'action',
+  interact = 'interact',
+  attack = 'attack'
 }
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
@@ -23,7 +25,9 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
         { name: Controls.left, keys: ['ArrowLeft', 'a', 'A'] },
         { name: Controls.right, keys: ['ArrowRight', 'd', 'D'] },
         { name: Controls.jump, keys: ['Space'] },
-        { name: Controls.action, keys: ['ShiftLeft', 'ShiftRight'] }
+        { name: Controls.action, keys: ['ShiftLeft', 'ShiftRight'] },
+        { name: Controls.interact, keys: ['e', 'E'] },
+        { name: Controls.attack, keys: ['f', 'F'] }
       ]}
     >
       <App />
@@ -0,0 +1,19 @@
+import { LoadedReplay, parseReplay } from '../game/replay'
+import { SERVER_URL } from './useSocketConnection'
+
+// Replay mode is opened with ?replay in the URL, or ?replay=<id> to load one of the server's replays
+export const isReplayMode = (): boolean => new URLSearchParams(window.location.search).has('replay')
+
+export const getReplayIdFromUrl = (): string | null => {
+  const replayId = new URLSearchParams(window.location.search).get('replay')
+  return replayId && replayId.trim() ? replayId.trim() : null
+}
+
+// Download a replay the server recorded (see server/src/replay/routes.ts)
+export const fetchReplay = async (replayId: string): Promise<LoadedReplay> => {
+  const response = await fetch(`${SERVER_URL}/replays/${encodeURIComponent(replayId)}`)
+  if (!response.ok) {
+    throw new Error(response.status === 404 ? `Replay ${replayId} not found` : `Failed to download replay ${replayId} (${response.status})`)
+  }
+  return parseReplay(await response.blob(), true)
+}
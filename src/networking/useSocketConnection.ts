@@ -1,14 +1,51 @@
 import { useEffect, useState, useRef } from 'react'
 import { io, Socket } from 'socket.io-client'
+import {
+  ClientToServerEvents,
+  HandshakeAuth,
+  PROTOCOL_MISMATCH,
+  PROTOCOL_VERSION,
+  ProtocolMismatchData,
+  RULE_PRESET_NAMES,
+  RulePreset,
+  ServerToClientEvents
+} from '../../shared/protocol'
+import { useGameStore } from '../store/gameStore'
+import { isReplayMode } from './replays'
 
 // This would be your server URL, adjust as needed
-const SERVER_URL = 'http://localhost:3001'
+export const SERVER_URL = 'http://localhost:3001'
+
+// Room used when the URL doesn't pick one, e.g. http://localhost:5173/?room=scrim-1
+const DEFAULT_ROOM_ID = 'default'
+
+// Read the room (match) to join from the page URL
+export const getRoomIdFromUrl = (): string => {
+  const roomId = new URLSearchParams(window.location.search).get('room')
+  return roomId && roomId.trim() ? roomId.trim() : DEFAULT_ROOM_ID
+}
+
+// A new room can be created with a rule preset, e.g. ?room=lunch&rules=quick.
+// Rooms that already exist keep their rules.
+export const getRulePresetFromUrl = (): RulePreset | undefined => {
+  const preset = new URLSearchParams(window.location.search).get('rules')
+  return RULE_PRESET_NAMES.find(name => name === preset)
+}
+
+// Spectators open the game with ?spectate, e.g. http://localhost:5173/?room=scrim-1&spectate
+export const isSpectatorMode = (): boolean => new URLSearchParams(window.location.search).has('spectate')
+
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>
+
+// Shown when the server speaks a different protocol version than this build
+const outdatedClientMessage = (serverVersion: number) =>
+  `Version mismatch: this client speaks protocol v${PROTOCOL_VERSION} but the server speaks v${serverVersion}. Reload the page to update.`
 
 // Create a single socket instance that's shared across all components
-let sharedSocketInstance: Socket | null = null
+let sharedSocketInstance: GameSocket | null = null
 
 export const useSocketConnection = () => {
-  const [socket, setSocket] = useState<Socket | null>(null)
+  const [socket, setSocket] = useState<GameSocket | null>(null)
   const [isConnected, setIsConnected] = useState(false)
   const initializeAttemptedRef = useRef(false)
 
@@ -20,6 +57,11 @@ export const useSocketConnection = () => {
     
     initializeAttemptedRef.current = true;
     
+    // Replays play back without a server
+    if (isReplayMode()) {
+      return;
+    }
+    
     // Reuse existing socket if available
     if (sharedSocketInstance) {
       setSocket(sharedSocketInstance);
@@ -28,7 +70,9 @@ export const useSocketConnection = () => {
     }
     
     // Initialize socket connection with more conservative reconnection settings
-    const socketInstance = io(SERVER_URL, {
+    const auth: HandshakeAuth = { protocolVersion: PROTOCOL_VERSION }
+    const socketInstance: GameSocket = io(SERVER_URL, {
+      auth,
       reconnectionAttempts: 3,
       reconnectionDelay: 2000,
       timeout: 10000,
@@ -53,6 +97,20 @@ export const useSocketConnection = () => {
     socketInstance.on('connect_error', (error) => {
       console.error('Connection error:', error)
       setIsConnected(false)
+
+      // The server refused us outright - socket.io won't retry, and it shouldn't
+      if (error.message === PROTOCOL_MISMATCH) {
+        const { serverVersion } = (error as Error & { data: ProtocolMismatchData }).data
+        useGameStore.getState().setConnectionError(outdatedClientMessage(serverVersion))
+      }
+    })
+
+    // The server checked our version during the handshake - check its version as well
+    socketInstance.on('welcome', ({ protocolVersion }) => {
+      if (protocolVersion !== PROTOCOL_VERSION) {
+        useGameStore.getState().setConnectionError(outdatedClientMessage(protocolVersion))
+        socketInstance.disconnect()
+      }
     })
 
     // Set socket instance to state
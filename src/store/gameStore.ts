@@ -1,51 +1,96 @@
 import { create } from 'zustand'
 import { createJSONStorage, persist } from 'zustand/middleware'
+import { AdminActionPayload, ChatMessage, GameState, PlayerKilledPayload, Vector3Tuple } from '../../shared/protocol'
+import { DEFAULT_RULES } from '../../shared/rules'
 
-interface Player {
-  id: string
-  position: [number, number, number]
-  rotation: [number, number, number]
-  team: 'blue' | 'gold'
-  role: 'queen' | 'worker' | 'soldier'
-  isActive: boolean
+// A server-ordered move of the local player, e.g. respawning at our base
+interface Teleport {
+  id: number
+  position: Vector3Tuple
 }
 
-interface GameState {
-  status: 'waiting' | 'starting' | 'playing' | 'ended'
-  players: Record<string, Player>
-  blueScore: number
-  goldScore: number
-  blueQueenAlive: boolean
-  goldQueenAlive: boolean
-  snailPosition: number
-  berryCount: {
-    blue: number
-    gold: number
-  }
+export interface KillFeedEntry extends PlayerKilledPayload {
+  id: number
+}
+
+// How many recent kills the HUD keeps
+const KILL_FEED_LENGTH = 5
+
+// How many chat messages the chat panel keeps
+const CHAT_HISTORY_LENGTH = 50
+
+export interface AdminNotice extends AdminActionPayload {
+  id: number
 }
 
+// How many recent admin actions the HUD shows
+const ADMIN_NOTICE_LENGTH = 3
+
 interface GameStore {
+  roomId: string | null
   playerId: string | null
+  // Secret the server issued with our player, needed to reconnect as it
+  sessionToken: string | null
+  // Nickname to play under, sent to the server whenever we get a player
+  nickname: string
   gameState: GameState
-  setPlayerId: (id: string) => void
+  teleport: Teleport | null
+  killFeed: KillFeedEntry[]
+  chatMessages: ChatMessage[]
+  adminNotices: AdminNotice[]
+  // Why the server refused our connection, e.g. an outdated client
+  connectionError: string | null
+  setRoomId: (id: string) => void
+  setPlayerId: (id: string, sessionToken: string) => void
+  setNickname: (nickname: string) => void
   setGameState: (state: GameState) => void
   resetGame: () => void
-  updatePlayerPosition: (playerId: string, position: [number, number, number], rotation: [number, number, number]) => void
   clearPlayerId: () => void
+  teleportLocalPlayer: (position: Vector3Tuple) => void
+  addKill: (kill: Omit<KillFeedEntry, 'id'>) => void
+  addChatMessage: (message: ChatMessage) => void
+  addAdminNotice: (notice: AdminActionPayload) => void
+  setConnectionError: (error: string | null) => void
 }
 
 const initialGameState: GameState = {
   status: 'waiting',
+  countdown: 0,
+  matchTime: 0,
   players: {},
   blueScore: 0,
   goldScore: 0,
   blueQueenAlive: true,
   goldQueenAlive: true,
   snailPosition: 50, // percentage from 0 (blue) to 100 (gold)
+  snail: {
+    riderId: null,
+    contesterId: null,
+    contestTime: 0,
+    digestTime: 0
+  },
+  berries: {},
+  gates: {},
   berryCount: {
     blue: 0,
     gold: 0
-  }
+  },
+  result: null,
+  rematchVotes: [],
+  swapRequests: [],
+  spectatorCount: 0,
+  map: { id: 'classic', name: 'Classic' },
+  sides: { blue: 'left', gold: 'right' },
+  series: {
+    bestOf: 3,
+    gameNumber: 1,
+    wins: { blue: 0, gold: 0 },
+    winner: null,
+    nextGameIn: 0
+  },
+  // The server's standard rules, until its first state arrives
+  rules: DEFAULT_RULES,
+  paused: false
 }
 
 // Create a safe storage object that handles exceptions
@@ -79,43 +124,46 @@ const safeStorage = {
 export const useGameStore = create<GameStore>()(
   persist(
     (set) => ({
+      roomId: null,
       playerId: null,
+      sessionToken: null,
+      nickname: '',
       gameState: initialGameState,
-      setPlayerId: (id) => set({ playerId: id }),
+      teleport: null,
+      killFeed: [],
+      chatMessages: [],
+      adminNotices: [],
+      connectionError: null,
+      setRoomId: (id) => set({ roomId: id }),
+      setPlayerId: (id, sessionToken) => set({ playerId: id, sessionToken }),
+      setNickname: (nickname) => set({ nickname }),
       setGameState: (state) => set({ gameState: state }),
       resetGame: () => set({ gameState: initialGameState }),
-      clearPlayerId: () => set({ playerId: null }),
-      updatePlayerPosition: (playerId, position, rotation) => 
-        set((state) => {
-          // Only update if the player exists in state
-          if (state.gameState.players[playerId]) {
-            // Create a new players object with the updated position
-            const updatedPlayers = {
-              ...state.gameState.players,
-              [playerId]: {
-                ...state.gameState.players[playerId],
-                position,
-                rotation
-              }
-            };
-            
-            // Return updated state with new players object
-            return {
-              gameState: {
-                ...state.gameState,
-                players: updatedPlayers
-              }
-            };
-          }
-          
-          // Return original state if player not found
-          return state;
-        })
+      clearPlayerId: () => set({ playerId: null, sessionToken: null }),
+      teleportLocalPlayer: (position) =>
+        set((state) => ({ teleport: { id: (state.teleport?.id ?? 0) + 1, position } })),
+      addKill: (kill) =>
+        set((state) => ({
+          killFeed: [
+            ...state.killFeed,
+            { ...kill, id: (state.killFeed[state.killFeed.length - 1]?.id ?? 0) + 1 }
+          ].slice(-KILL_FEED_LENGTH)
+        })),
+      addChatMessage: (message) =>
+        set((state) => ({ chatMessages: [...state.chatMessages, message].slice(-CHAT_HISTORY_LENGTH) })),
+      addAdminNotice: (notice) =>
+        set((state) => ({
+          adminNotices: [
+            ...state.adminNotices,
+            { ...notice, id: (state.adminNotices[state.adminNotices.length - 1]?.id ?? 0) + 1 }
+          ].slice(-ADMIN_NOTICE_LENGTH)
+        })),
+      setConnectionError: (error) => set({ connectionError: error }),
     }),
     {
       name: 'killer-queen-player-storage',
       storage: createJSONStorage(() => safeStorage),
-      partialize: (state) => ({ playerId: state.playerId }),
+      partialize: (state) => ({ playerId: state.playerId, sessionToken: state.sessionToken, nickname: state.nickname }),
     }
   )
 ) 
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { create } from 'zustand'
+import { LoadedReplay } from '../game/replay'
+
+// Playback speeds offered by the replay controls
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4]
+
+interface ReplayStore {
+  replay: LoadedReplay | null
+  // Playback position in match seconds
+  time: number
+  playing: boolean
+  speed: number
+  // Player the camera follows, or null for an overview of the arena
+  followId: string | null
+  // Why the replay couldn't be loaded
+  error: string | null
+  setReplay: (replay: LoadedReplay) => void
+  setTime: (time: number) => void
+  setPlaying: (playing: boolean) => void
+  setSpeed: (speed: number) => void
+  setFollowId: (playerId: string | null) => void
+  setError: (error: string | null) => void
+}
+
+export const useReplayStore = create<ReplayStore>()((set) => ({
+  replay: null,
+  time: 0,
+  playing: false,
+  speed: 1,
+  followId: null,
+  error: null,
+  setReplay: (replay) => set({ replay, time: 0, playing: true, followId: null, error: null }),
+  setTime: (time) => set((state) => ({ time: Math.max(0, Math.min(time, state.replay?.file.duration ?? 0)) })),
+  setPlaying: (playing) => set({ playing }),
+  setSpeed: (speed) => set({ speed }),
+  setFollowId: (playerId) => set({ followId: playerId }),
+  setError: (error) => set({ error }),
+}))
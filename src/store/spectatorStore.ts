@@ -0,0 +1,19 @@
+import { create } from 'zustand'
+
+// free: fly the camera around; follow: chase a player; overhead: look down on the whole arena
+export type SpectatorCameraMode = 'free' | 'follow' | 'overhead'
+
+interface SpectatorStore {
+  cameraMode: SpectatorCameraMode
+  // Player the follow camera chases
+  followId: string | null
+  setCameraMode: (mode: SpectatorCameraMode) => void
+  setFollowId: (playerId: string | null) => void
+}
+
+export const useSpectatorStore = create<SpectatorStore>()((set) => ({
+  cameraMode: 'overhead',
+  followId: null,
+  setCameraMode: (mode) => set({ cameraMode: mode }),
+  setFollowId: (playerId) => set({ followId: playerId }),
+}))